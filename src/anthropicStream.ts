@@ -0,0 +1,269 @@
+/**
+ * Anthropic Stream Writer for Toqan AI Bridge
+ *
+ * Emits the Messages API server-sent event sequence over a raw response:
+ * message_start → content_block_start/delta/stop → message_delta → message_stop,
+ * with ping events to keep idle connections alive while Toqan is thinking.
+ */
+
+import { FastifyReply } from 'fastify';
+import { thinkingSignature } from './thinking';
+import { ContentBlock } from './types';
+
+export interface AnthropicStreamOptions {
+  /** Message ID reported in message_start */
+  messageId?: string;
+  /** Model name echoed back to the client */
+  model: string;
+  /** Input tokens reported in message_start */
+  inputTokens?: number;
+}
+
+export interface StreamToolUse {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+/**
+ * Sink the streaming flows write an assistant message to, whatever the wire protocol
+ */
+export interface MessageStreamWriter {
+  start(): void;
+  ping(): void;
+  textDelta(text: string): void;
+  thinkingDelta(thinking: string): void;
+  toolUse(toolUse: StreamToolUse): void;
+  contentBlock(block: ContentBlock): void;
+  stopBlock(): void;
+  finish(stopReason: string | null, stopSequence?: string | null, outputTokens?: number, inputTokens?: number): void;
+  error(type: string, message: string): void;
+  end(): void;
+  isClosed(): boolean;
+}
+
+/**
+ * Writes Anthropic-compatible SSE events for a single assistant message
+ */
+export class AnthropicStreamWriter implements MessageStreamWriter {
+  private reply: FastifyReply['raw'];
+  private options: Required<AnthropicStreamOptions>;
+  private blockIndex: number = 0;
+  private openBlock: 'text' | 'thinking' | 'tool_use' | null = null;
+  private thinkingText: string = '';
+  private closed: boolean = false;
+
+  constructor(reply: FastifyReply['raw'], options: AnthropicStreamOptions) {
+    this.reply = reply;
+    this.options = {
+      messageId: options.messageId ?? `msg_${Math.random().toString(36).slice(2)}`,
+      model: options.model,
+      inputTokens: options.inputTokens ?? 0
+    };
+  }
+
+  /**
+   * Write SSE headers and the message_start event
+   */
+  public start(): void {
+    this.reply.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+
+    this.writeEvent('message_start', {
+      type: 'message_start',
+      message: {
+        id: this.options.messageId,
+        type: 'message',
+        role: 'assistant',
+        content: [],
+        model: this.options.model,
+        stop_reason: null,
+        stop_sequence: null,
+        usage: {
+          input_tokens: this.options.inputTokens,
+          output_tokens: 0
+        }
+      }
+    });
+  }
+
+  /**
+   * Send a keep-alive ping
+   */
+  public ping(): void {
+    this.writeEvent('ping', { type: 'ping' });
+  }
+
+  /**
+   * Append text to the current text block, opening one if needed
+   */
+  public textDelta(text: string): void {
+    if (!text) return;
+
+    if (this.openBlock !== 'text') {
+      this.stopBlock();
+      this.writeEvent('content_block_start', {
+        type: 'content_block_start',
+        index: this.blockIndex,
+        content_block: { type: 'text', text: '' }
+      });
+      this.openBlock = 'text';
+    }
+
+    this.writeEvent('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: { type: 'text_delta', text }
+    });
+  }
+
+  /**
+   * Append reasoning to the current thinking block, opening one if needed
+   */
+  public thinkingDelta(thinking: string): void {
+    if (!thinking) return;
+
+    if (this.openBlock !== 'thinking') {
+      this.stopBlock();
+      this.writeEvent('content_block_start', {
+        type: 'content_block_start',
+        index: this.blockIndex,
+        content_block: { type: 'thinking', thinking: '', signature: '' }
+      });
+      this.openBlock = 'thinking';
+      this.thinkingText = '';
+    }
+
+    this.thinkingText += thinking;
+    this.writeEvent('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: { type: 'thinking_delta', thinking }
+    });
+  }
+
+  /**
+   * Emit a complete tool_use block, streaming its input as input_json_delta
+   */
+  public toolUse(toolUse: StreamToolUse): void {
+    this.stopBlock();
+
+    this.writeEvent('content_block_start', {
+      type: 'content_block_start',
+      index: this.blockIndex,
+      content_block: { type: 'tool_use', id: toolUse.id, name: toolUse.name, input: {} }
+    });
+    this.openBlock = 'tool_use';
+
+    this.writeEvent('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: { type: 'input_json_delta', partial_json: JSON.stringify(toolUse.input ?? {}) }
+    });
+
+    this.stopBlock();
+  }
+
+  /**
+   * Emit a complete block that has no deltas, such as an image or document Toqan attached
+   */
+  public contentBlock(block: ContentBlock): void {
+    this.stopBlock();
+
+    this.writeEvent('content_block_start', {
+      type: 'content_block_start',
+      index: this.blockIndex,
+      content_block: block
+    });
+    this.writeEvent('content_block_stop', {
+      type: 'content_block_stop',
+      index: this.blockIndex
+    });
+    this.blockIndex++;
+  }
+
+  /**
+   * Close the currently open content block, if any
+   */
+  public stopBlock(): void {
+    if (this.openBlock === null) return;
+
+    // Thinking blocks end with their signature
+    if (this.openBlock === 'thinking') {
+      this.writeEvent('content_block_delta', {
+        type: 'content_block_delta',
+        index: this.blockIndex,
+        delta: { type: 'signature_delta', signature: thinkingSignature(this.thinkingText) }
+      });
+    }
+
+    this.writeEvent('content_block_stop', {
+      type: 'content_block_stop',
+      index: this.blockIndex
+    });
+    this.openBlock = null;
+    this.blockIndex++;
+  }
+
+  /**
+   * Close open blocks and send message_delta + message_stop.
+   * inputTokens is only sent when it was not known at message_start.
+   */
+  public finish(
+    stopReason: string | null,
+    stopSequence: string | null = null,
+    outputTokens: number = 0,
+    inputTokens?: number
+  ): void {
+    this.stopBlock();
+
+    this.writeEvent('message_delta', {
+      type: 'message_delta',
+      delta: { stop_reason: stopReason, stop_sequence: stopSequence },
+      usage: inputTokens !== undefined
+        ? { input_tokens: inputTokens, output_tokens: outputTokens }
+        : { output_tokens: outputTokens }
+    });
+    this.writeEvent('message_stop', { type: 'message_stop' });
+  }
+
+  /**
+   * Send an error event (used once headers have already been sent)
+   */
+  public error(type: string, message: string): void {
+    this.writeEvent('error', {
+      type: 'error',
+      error: { type, message }
+    });
+  }
+
+  /**
+   * End the underlying response
+   */
+  public end(): void {
+    if (this.closed) return;
+    this.closed = true;
+    try { this.reply.end(); } catch {}
+  }
+
+  /**
+   * Check if the stream is closed
+   */
+  public isClosed(): boolean {
+    return this.closed;
+  }
+
+  private writeEvent(event: string, data: any): void {
+    if (this.closed) return;
+
+    try {
+      this.reply.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      console.error(`Failed to write ${event} event:`, error);
+      this.closed = true;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Attachment Service for Toqan AI Bridge
+ *
+ * Finds files Toqan attached to its replies (listed by find_conversation) and
+ * turns them into content blocks: small images and documents inline as base64,
+ * anything else as a reference to a bridge-hosted file served by /v1/files.
+ * Each attachment is returned once per conversation, and a conversation the bridge
+ * did not create is primed before its first turn so older attachments are skipped.
+ * Both cost a find_conversation call per turn, so the service is off unless
+ * TOQAN_ATTACHMENTS=true.
+ */
+
+import { findConversation, downloadFile } from './toqanClient';
+import { FileStore } from './fileStore';
+import { SessionStore } from './sessionStore';
+import { ContentBlock } from './types';
+import { currentModel } from './modelRegistry';
+
+/** Author id of the messages Toqan writes */
+const TOQAN_AUTHOR = 'Toqan';
+
+/** Largest attachment returned inline as base64 */
+const ATTACHMENT_INLINE_MAX_BYTES = Number(process.env.ATTACHMENT_INLINE_MAX_BYTES || 5 * 1024 * 1024);
+
+/** Document types Anthropic clients accept as base64 document blocks */
+const INLINE_DOCUMENT_TYPES = ['application/pdf', 'text/plain'];
+
+export interface ToqanAttachment {
+  /** URL-encoded file name, as find_conversation lists it */
+  name: string;
+  mime_type?: string;
+}
+
+/**
+ * Attachment service class
+ */
+export class AttachmentService {
+  private sessions: SessionStore;
+  private files: FileStore;
+
+  constructor(sessions: SessionStore, files: FileStore) {
+    this.sessions = sessions;
+    this.files = files;
+  }
+
+  /**
+   * Mark the attachments a conversation already has as seen before a turn is sent to it,
+   * unless that was done before. Failures are logged; the turn goes ahead regardless.
+   */
+  public async prime(conversationId: string): Promise<void> {
+    if (!attachmentsEnabled()) return;
+
+    try {
+      if (await this.sessions.attachmentsPrimed(conversationId)) return;
+
+      const messages = await findConversation({ conversation_id: conversationId });
+      const keys = Array.isArray(messages)
+        ? messages.flatMap(message => toqanAttachments(message).map(attachment => attachmentKey(message, attachment)))
+        : [];
+      await this.sessions.primeAttachments(conversationId, keys);
+      console.log(`📎 Skipping ${keys.length} earlier attachments of ${conversationId}`);
+    } catch (error: any) {
+      console.warn(`⚠️ Could not prime attachments of ${conversationId}:`, error.message);
+    }
+  }
+
+  /**
+   * Content blocks for the attachments Toqan added to a conversation since the last call.
+   * Failures are logged and yield no blocks, so an answer is never lost to them. An
+   * attachment is only marked seen once its block is built, so one that failed to
+   * download is tried again on the next turn.
+   */
+  public async collect(conversationId: string, owner: string): Promise<ContentBlock[]> {
+    if (!attachmentsEnabled()) return [];
+
+    let messages: any;
+    let seen: Set<string>;
+    try {
+      messages = await findConversation({ conversation_id: conversationId });
+      if (!Array.isArray(messages)) return [];
+      seen = new Set(await this.sessions.getSeenAttachments(conversationId));
+    } catch (error: any) {
+      console.warn(`⚠️ Could not collect attachments of ${conversationId}:`, error.message);
+      return [];
+    }
+
+    const blocks: ContentBlock[] = [];
+    for (const message of messages) {
+      for (const attachment of toqanAttachments(message)) {
+        const key = attachmentKey(message, attachment);
+        if (seen.has(key)) continue;
+
+        try {
+          const block = await this.toBlock(conversationId, attachment, owner);
+          await this.sessions.markAttachmentSeen(conversationId, key);
+          blocks.push(block);
+        } catch (error: any) {
+          console.warn(`⚠️ Could not collect attachment ${attachment.name} of ${conversationId}:`, error.message);
+        }
+      }
+    }
+
+    if (blocks.length > 0) console.log(`📎 Returning ${blocks.length} attachments from ${conversationId}`);
+    return blocks;
+  }
+
+  private async toBlock(conversationId: string, attachment: ToqanAttachment, owner: string): Promise<ContentBlock> {
+    const fileName = decodeURIComponent(attachment.name);
+    const { data, contentType } = await downloadFile(conversationId, fileName);
+    const mediaType = attachment.mime_type || contentType;
+
+    if (data.length <= ATTACHMENT_INLINE_MAX_BYTES) {
+      if (mediaType.startsWith('image/')) {
+        return { type: 'image', source: { type: 'base64', media_type: mediaType, data: data.toString('base64') } };
+      }
+      if (INLINE_DOCUMENT_TYPES.includes(mediaType)) {
+        return { type: 'document', source: { type: 'base64', media_type: mediaType, data: data.toString('base64') }, title: fileName };
+      }
+    }
+
+    // Large or other binaries are hosted by the bridge and downloaded through /v1/files
+    const file = await this.files.createFile({
+      toqan_file_id: null,
+      filename: fileName,
+      mime_type: mediaType,
+      owner,
+      origin: { conversation_id: conversationId, file_name: fileName, model: currentModel()?.id }
+    }, data);
+    return { type: 'document', source: { type: 'file', file_id: file.id }, title: fileName };
+  }
+}
+
+// Whether replies are checked for attachments at all
+function attachmentsEnabled(): boolean {
+  return process.env.TOQAN_ATTACHMENTS === 'true';
+}
+
+// Attachments of a message Toqan wrote; other authors' files are never returned
+function toqanAttachments(message: any): ToqanAttachment[] {
+  if (message?.author_id !== TOQAN_AUTHOR || !Array.isArray(message.attachments)) return [];
+  return message.attachments;
+}
+
+function attachmentKey(message: any, attachment: ToqanAttachment): string {
+  return `${message.id}:${attachment.name}`;
+}
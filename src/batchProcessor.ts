@@ -0,0 +1,158 @@
+/**
+ * Batch Processor for Toqan AI Bridge
+ *
+ * Works through the Redis batch queue with a bounded number of concurrent items.
+ * Each item runs as a regular /v1/messages request, so batches go through the same
+ * create / continue / get_answer flow, model routing and error classification.
+ * Every bridge replica runs a processor; they share the queue. Each processor also
+ * requeues items whose lease lapsed and expires batches past their deadline.
+ */
+
+import { BatchStore, BatchJob, BatchItemResult, BatchRequest } from './batchStore';
+import { BridgeError, classifyError } from './errors';
+
+export interface BatchProcessorOptions {
+  /** Items processed at the same time by this replica */
+  concurrency?: number;
+  /** Milliseconds to wait before checking an empty queue again */
+  pollInterval?: number;
+  /** Milliseconds a taken item stays leased without renewal; also the maintenance interval */
+  leaseTtl?: number;
+}
+
+/**
+ * Runs one batch request and returns the HTTP status and body it was answered with
+ */
+export type BatchExecutor = (request: BatchRequest, batchId: string) => Promise<{ statusCode: number; body: any }>;
+
+/**
+ * Batch processor class
+ */
+export class BatchProcessor {
+  private store: BatchStore;
+  private execute: BatchExecutor;
+  private options: Required<BatchProcessorOptions>;
+  private running: boolean = false;
+  private timers: Set<NodeJS.Timeout> = new Set();
+
+  constructor(store: BatchStore, execute: BatchExecutor, options: BatchProcessorOptions = {}) {
+    this.store = store;
+    this.execute = execute;
+    this.options = {
+      concurrency: options.concurrency ?? 4,
+      pollInterval: options.pollInterval ?? 1000,
+      leaseTtl: options.leaseTtl ?? 60000
+    };
+  }
+
+  /**
+   * Start the worker slots
+   */
+  public start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    for (let slot = 0; slot < this.options.concurrency; slot++) {
+      void this.runSlot();
+    }
+    void this.runMaintenance();
+  }
+
+  /**
+   * Stop taking new items; items already running finish on their own
+   */
+  public stop(): void {
+    this.running = false;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /**
+   * Process a taken item and record its result. The item's lease is renewed meanwhile;
+   * if this throws, the item stays on the processing list and is requeued once the lease lapses.
+   */
+  public async processJob(job: BatchJob): Promise<void> {
+    const renewal = setInterval(() => {
+      this.store.renewLease(job, this.options.leaseTtl)
+        .catch(error => console.warn(`⚠️ Could not renew the lease of batch item ${job.batchId}#${job.index}:`, error.message));
+    }, Math.max(10, Math.floor(this.options.leaseTtl / 3)));
+    renewal.unref();
+
+    try {
+      if (await this.store.startItem(job.batchId, job.index)) {
+        await this.runItem(job);
+      }
+      await this.store.finishJob(job);
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+
+  private async runItem(job: BatchJob): Promise<void> {
+    const [record, request] = await Promise.all([
+      this.store.getRecord(job.batchId),
+      this.store.getRequest(job.batchId, job.index)
+    ]);
+
+    let result: BatchItemResult;
+    if (!record || !request) {
+      const missing = new BridgeError('api_error', `Batch item ${job.batchId}#${job.index} has no stored ${record ? 'request' : 'batch record'}`, 500);
+      result = { type: 'errored', error: missing.toEnvelope() };
+    } else if (record.processing_status === 'canceling') {
+      result = { type: 'canceled' };
+    } else if (Date.now() > Date.parse(record.expires_at)) {
+      result = { type: 'expired' };
+    } else {
+      try {
+        const { statusCode, body } = await this.execute(request, job.batchId);
+        result = statusCode < 400
+          ? { type: 'succeeded', message: body }
+          : { type: 'errored', error: body };
+      } catch (error: any) {
+        result = { type: 'errored', error: classifyError(error).toEnvelope() };
+      }
+    }
+
+    await this.store.recordResult(job.batchId, job.index, result);
+  }
+
+  private async runSlot(): Promise<void> {
+    while (this.running) {
+      let job: BatchJob | null = null;
+      try {
+        job = await this.store.nextJob(this.options.leaseTtl);
+        if (job) await this.processJob(job);
+      } catch (error: any) {
+        console.error(`❌ Batch item ${job ? `${job.batchId}#${job.index}` : ''} failed:`, error.message);
+      }
+
+      if (!job) await this.sleep(this.options.pollInterval);
+    }
+  }
+
+  // Requeue items of crashed workers and expire abandoned batches, once per lease period
+  private async runMaintenance(): Promise<void> {
+    while (this.running) {
+      try {
+        const requeued = await this.store.requeueStale();
+        if (requeued > 0) console.log(`♻️ Requeued ${requeued} batch items whose lease lapsed`);
+        const expired = await this.store.expireBatches();
+        if (expired.length > 0) console.log(`⌛ Expired ${expired.length} batches past their deadline`);
+      } catch (error: any) {
+        console.error('❌ Batch maintenance failed:', error.message);
+      }
+
+      await this.sleep(this.options.leaseTtl);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.add(timer);
+    });
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * Message Batch Store for Toqan AI Bridge
+ *
+ * Redis-backed state of /v1/messages/batches: the batch record, its requests,
+ * per-item results and outcome counters, plus the shared work queue the batch
+ * processor pulls items from. A claimed item moves to the processing list under a
+ * lease; items whose lease lapses (crashed worker) go back on the queue. Ended
+ * batches expire after the retention period.
+ */
+
+import type Redis from 'ioredis';
+import crypto from 'crypto';
+import { AnthropicRequest } from './types';
+import { AnthropicErrorEnvelope } from './errors';
+
+export const BATCH_PREFIX = "toqan:batch:";
+export const BATCH_INDEX_KEY = "toqan:batches";
+export const BATCH_QUEUE_KEY = "toqan:batch_queue";
+export const BATCH_PROCESSING_KEY = "toqan:batch_processing";
+export const BATCH_LEASE_PREFIX = "toqan:batch_lease:";
+export const BATCH_ACTIVE_KEY = "toqan:batches_active";
+
+/** Seconds a batch may take before its unprocessed items expire */
+const BATCH_EXPIRY = Number(process.env.BATCH_EXPIRY_SECONDS || 24 * 60 * 60);
+/** Seconds results stay available once a batch has ended */
+const BATCH_RETENTION = Number(process.env.BATCH_RETENTION_SECONDS || 29 * 24 * 60 * 60);
+
+export type BatchOutcome = 'succeeded' | 'errored' | 'canceled' | 'expired';
+
+export interface BatchRequest {
+  custom_id: string;
+  params: AnthropicRequest;
+}
+
+export type BatchItemResult =
+  | { type: 'succeeded'; message: any }
+  | { type: 'errored'; error: AnthropicErrorEnvelope }
+  | { type: 'canceled' }
+  | { type: 'expired' };
+
+export interface BatchRecord {
+  id: string;
+  processing_status: 'in_progress' | 'canceling' | 'ended';
+  total: number;
+  created_at: string;
+  expires_at: string;
+  cancel_initiated_at: string | null;
+  ended_at: string | null;
+}
+
+export interface MessageBatch {
+  id: string;
+  type: 'message_batch';
+  processing_status: BatchRecord['processing_status'];
+  request_counts: Record<'processing' | BatchOutcome, number>;
+  ended_at: string | null;
+  created_at: string;
+  expires_at: string;
+  cancel_initiated_at: string | null;
+  archived_at: null;
+  results_url: string | null;
+}
+
+export interface BatchJob {
+  batchId: string;
+  index: number;
+}
+
+/**
+ * Message batch store class
+ */
+export class BatchStore {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  /**
+   * Store a new batch and queue every request for processing
+   */
+  public async createBatch(requests: BatchRequest[]): Promise<MessageBatch> {
+    const now = new Date();
+    const record: BatchRecord = {
+      id: `msgbatch_${crypto.randomBytes(12).toString('hex')}`,
+      processing_status: 'in_progress',
+      total: requests.length,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + BATCH_EXPIRY * 1000).toISOString(),
+      cancel_initiated_at: null,
+      ended_at: null
+    };
+
+    const key = BATCH_PREFIX + record.id;
+    const tx = this.redis.multi();
+    tx.set(key, JSON.stringify(record));
+    tx.hset(`${key}:requests`, ...requests.flatMap((request, i) => [String(i), JSON.stringify(request)]));
+    tx.hset(`${key}:counts`, 'processing', requests.length, 'succeeded', 0, 'errored', 0, 'canceled', 0, 'expired', 0);
+    tx.zadd(BATCH_INDEX_KEY, now.getTime(), record.id);
+    tx.sadd(BATCH_ACTIVE_KEY, record.id);
+    tx.rpush(BATCH_QUEUE_KEY, ...requests.map((_, i) => `${record.id}:${i}`));
+    await tx.exec();
+
+    return this.toBatch(record, await this.getCounts(record.id));
+  }
+
+  /**
+   * Batch as returned by the API, or null if it doesn't exist (or has expired)
+   */
+  public async getBatch(batchId: string): Promise<MessageBatch | null> {
+    const record = await this.getRecord(batchId);
+    return record ? this.toBatch(record, await this.getCounts(batchId)) : null;
+  }
+
+  /**
+   * Batches, newest first. afterId / beforeId page relative to a batch in that order.
+   */
+  public async listBatches(limit: number, afterId?: string, beforeId?: string): Promise<{ data: MessageBatch[]; has_more: boolean }> {
+    const ids = await this.redis.zrevrange(BATCH_INDEX_KEY, 0, -1);
+    let start = 0;
+    let end = ids.length;
+    if (afterId) start = ids.indexOf(afterId) + 1;
+    if (beforeId) end = Math.max(0, ids.indexOf(beforeId));
+    if (beforeId) start = Math.max(start, end - limit);
+
+    const data: MessageBatch[] = [];
+    let next = start;
+    for (; next < end && data.length < limit; next++) {
+      const batch = await this.getBatch(ids[next]);
+      if (batch) {
+        data.push(batch);
+      } else {
+        // Past its retention period
+        await this.redis.zrem(BATCH_INDEX_KEY, ids[next]);
+      }
+    }
+
+    return { data, has_more: next < end };
+  }
+
+  /**
+   * Start canceling a batch: items no worker has started are canceled right away,
+   * items already running finish normally
+   */
+  public async cancelBatch(batchId: string): Promise<MessageBatch | null> {
+    const record = await this.getRecord(batchId);
+    if (!record) return null;
+    if (record.processing_status !== 'in_progress') return this.toBatch(record, await this.getCounts(batchId));
+
+    record.processing_status = 'canceling';
+    record.cancel_initiated_at = new Date().toISOString();
+    await this.saveRecord(record);
+
+    const key = BATCH_PREFIX + batchId;
+    const started = new Set(await this.redis.smembers(`${key}:started`));
+    for (let index = 0; index < record.total; index++) {
+      if (!started.has(String(index))) {
+        await this.recordResult(batchId, index, { type: 'canceled' });
+      }
+    }
+
+    return this.getBatch(batchId);
+  }
+
+  /**
+   * Take the next queued item onto the processing list, leased for leaseTtl milliseconds.
+   * Null when the queue is empty.
+   */
+  public async nextJob(leaseTtl: number): Promise<BatchJob | null> {
+    const entry = await this.redis.lmove(BATCH_QUEUE_KEY, BATCH_PROCESSING_KEY, 'LEFT', 'RIGHT');
+    if (!entry) return null;
+
+    await this.redis.set(BATCH_LEASE_PREFIX + entry, '1', 'PX', leaseTtl);
+    const separator = entry.lastIndexOf(':');
+    return { batchId: entry.slice(0, separator), index: Number(entry.slice(separator + 1)) };
+  }
+
+  /**
+   * Keep a taken item's lease alive while it runs
+   */
+  public async renewLease(job: BatchJob, leaseTtl: number): Promise<void> {
+    await this.redis.pexpire(BATCH_LEASE_PREFIX + jobEntry(job), leaseTtl);
+  }
+
+  /**
+   * Drop a taken item from the processing list once it has a result (or belongs to another worker)
+   */
+  public async finishJob(job: BatchJob): Promise<void> {
+    const entry = jobEntry(job);
+    await this.redis.multi()
+      .lrem(BATCH_PROCESSING_KEY, 1, entry)
+      .del(BATCH_LEASE_PREFIX + entry)
+      .exec();
+  }
+
+  /**
+   * Put items whose lease lapsed back on the queue, unclaimed. Returns how many were requeued.
+   */
+  public async requeueStale(): Promise<number> {
+    const entries = await this.redis.lrange(BATCH_PROCESSING_KEY, 0, -1);
+    let requeued = 0;
+    for (const entry of entries) {
+      if (await this.redis.exists(BATCH_LEASE_PREFIX + entry)) continue;
+      // Whoever removes the entry requeues it, so concurrent reapers requeue it once
+      if (!(await this.redis.lrem(BATCH_PROCESSING_KEY, 1, entry))) continue;
+
+      const separator = entry.lastIndexOf(':');
+      await this.redis.multi()
+        .srem(`${BATCH_PREFIX}${entry.slice(0, separator)}:started`, entry.slice(separator + 1))
+        .rpush(BATCH_QUEUE_KEY, entry)
+        .exec();
+      requeued++;
+    }
+    return requeued;
+  }
+
+  /**
+   * Expire the unstarted items of batches past expires_at, so batches nobody works on
+   * still end. Started items expire when they are next taken. Returns the batches touched.
+   */
+  public async expireBatches(): Promise<string[]> {
+    const expired: string[] = [];
+    for (const batchId of await this.redis.smembers(BATCH_ACTIVE_KEY)) {
+      const record = await this.getRecord(batchId);
+      if (!record || record.processing_status === 'ended') {
+        await this.redis.srem(BATCH_ACTIVE_KEY, batchId);
+        continue;
+      }
+      if (Date.now() <= Date.parse(record.expires_at)) continue;
+
+      const key = BATCH_PREFIX + batchId;
+      const started = new Set(await this.redis.smembers(`${key}:started`));
+      for (let index = 0; index < record.total; index++) {
+        if (!started.has(String(index))) {
+          await this.recordResult(batchId, index, { type: 'expired' });
+        }
+      }
+      expired.push(batchId);
+    }
+    return expired;
+  }
+
+  /**
+   * Claim an item for processing. False when it already has a result (canceled) or
+   * another worker got it first.
+   */
+  public async startItem(batchId: string, index: number): Promise<boolean> {
+    const key = BATCH_PREFIX + batchId;
+    if (await this.redis.hexists(`${key}:results`, String(index))) return false;
+    return (await this.redis.sadd(`${key}:started`, String(index))) === 1;
+  }
+
+  /**
+   * A request of a batch
+   */
+  public async getRequest(batchId: string, index: number): Promise<BatchRequest | null> {
+    const raw = await this.redis.hget(`${BATCH_PREFIX}${batchId}:requests`, String(index));
+    return raw ? JSON.parse(raw) as BatchRequest : null;
+  }
+
+  /**
+   * Record the result of an item (once) and end the batch when it was the last one
+   */
+  public async recordResult(batchId: string, index: number, result: BatchItemResult): Promise<void> {
+    const key = BATCH_PREFIX + batchId;
+    const request = await this.getRequest(batchId, index);
+    const line = JSON.stringify({ custom_id: request?.custom_id, result });
+
+    const stored = await this.redis.hsetnx(`${key}:results`, String(index), line);
+    if (!stored) return;
+
+    const counts = await this.redis.multi()
+      .hincrby(`${key}:counts`, result.type, 1)
+      .hincrby(`${key}:counts`, 'processing', -1)
+      .exec();
+    const processing = Number(counts?.[1]?.[1]);
+    if (processing <= 0) await this.endBatch(batchId);
+  }
+
+  /**
+   * Results of an ended batch as JSONL, in request order
+   */
+  public async getResults(batchId: string): Promise<string> {
+    const results = await this.redis.hgetall(`${BATCH_PREFIX}${batchId}:results`);
+    return Object.keys(results)
+      .sort((a, b) => Number(a) - Number(b))
+      .map(index => results[index])
+      .join('\n') + '\n';
+  }
+
+  /**
+   * The stored batch record
+   */
+  public async getRecord(batchId: string): Promise<BatchRecord | null> {
+    const raw = await this.redis.get(BATCH_PREFIX + batchId);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as BatchRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveRecord(record: BatchRecord): Promise<void> {
+    await this.redis.set(BATCH_PREFIX + record.id, JSON.stringify(record));
+  }
+
+  // Mark the batch ended and start its retention period
+  private async endBatch(batchId: string): Promise<void> {
+    const record = await this.getRecord(batchId);
+    if (!record || record.processing_status === 'ended') return;
+
+    record.processing_status = 'ended';
+    record.ended_at = new Date().toISOString();
+    await this.saveRecord(record);
+    await this.redis.srem(BATCH_ACTIVE_KEY, batchId);
+
+    const key = BATCH_PREFIX + batchId;
+    const tx = this.redis.multi();
+    for (const suffix of ['', ':requests', ':results', ':counts', ':started']) {
+      tx.expire(key + suffix, BATCH_RETENTION);
+    }
+    await tx.exec();
+  }
+
+  private async getCounts(batchId: string): Promise<MessageBatch['request_counts']> {
+    const raw = await this.redis.hgetall(`${BATCH_PREFIX}${batchId}:counts`);
+    return {
+      processing: Number(raw.processing || 0),
+      succeeded: Number(raw.succeeded || 0),
+      errored: Number(raw.errored || 0),
+      canceled: Number(raw.canceled || 0),
+      expired: Number(raw.expired || 0)
+    };
+  }
+
+  private toBatch(record: BatchRecord, counts: MessageBatch['request_counts']): MessageBatch {
+    return {
+      id: record.id,
+      type: 'message_batch',
+      processing_status: record.processing_status,
+      request_counts: counts,
+      ended_at: record.ended_at,
+      created_at: record.created_at,
+      expires_at: record.expires_at,
+      cancel_initiated_at: record.cancel_initiated_at,
+      archived_at: null,
+      results_url: record.processing_status === 'ended' ? `/v1/messages/batches/${record.id}/results` : null
+    };
+  }
+}
+
+// Queue entry of an item
+function jobEntry(job: BatchJob): string {
+  return `${job.batchId}:${job.index}`;
+}
@@ -0,0 +1,130 @@
+/**
+ * Checkpoint Store for Toqan AI Bridge
+ *
+ * Redis-backed progress of chunked and hybrid smart requests, keyed by a request
+ * fingerprint: the Toqan conversation, the uploaded file and how many chunks were
+ * answered. A retry of the same payload (or an explicit resume) continues from the
+ * first unfinished chunk instead of sending everything to Toqan again.
+ */
+
+import type Redis from 'ioredis';
+import crypto from 'crypto';
+import { currentModel } from './modelRegistry';
+
+export const CHECKPOINT_PREFIX = "toqan:checkpoint:";
+
+/** Seconds a checkpoint is kept after it was last updated */
+const CHECKPOINT_TTL = Number(process.env.CHECKPOINT_TTL_SECONDS || 24 * 60 * 60);
+
+export interface Checkpoint {
+  /** Request fingerprint */
+  id: string;
+  strategy: 'chunks' | 'hybrid';
+  /** Model whose Toqan backend holds the conversation */
+  model?: string;
+  /** Client session the request belongs to */
+  sessionId?: string;
+  /** Conversation the chunks were sent to, once it exists */
+  conversationId?: string;
+  /** File uploaded by the hybrid strategy */
+  fileId?: string;
+  /** Chunks to send, and how many of them were answered */
+  totalChunks: number;
+  completedChunks: number;
+  /** Token counts of the work done so far */
+  inputTokens: number;
+  responseTokens: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fingerprint of a smart request: the same message, strategy, session and model map
+ * to the same checkpoint
+ */
+export function requestFingerprint(message: string, strategy: string, sessionId?: string): string {
+  return crypto.createHash('sha256')
+    .update(JSON.stringify({ model: currentModel()?.id, sessionId, strategy, message }))
+    .digest('hex');
+}
+
+/**
+ * Checkpoint store class
+ */
+export class CheckpointStore {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  /**
+   * Read a checkpoint, or null if there is none (or it has expired)
+   */
+  public async get(id: string): Promise<Checkpoint | null> {
+    const raw = await this.redis.get(CHECKPOINT_PREFIX + id);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as Checkpoint;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Start a checkpoint for a request, keeping its message for an explicit resume
+   */
+  public async start(
+    id: string,
+    message: string,
+    fields: Pick<Checkpoint, 'strategy' | 'sessionId' | 'totalChunks'>
+  ): Promise<Checkpoint> {
+    const now = new Date().toISOString();
+    const checkpoint: Checkpoint = {
+      id,
+      ...fields,
+      model: currentModel()?.id,
+      completedChunks: 0,
+      inputTokens: 0,
+      responseTokens: 0,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.redis.multi()
+      .set(CHECKPOINT_PREFIX + id, JSON.stringify(checkpoint), 'EX', CHECKPOINT_TTL)
+      .set(`${CHECKPOINT_PREFIX}${id}:message`, message, 'EX', CHECKPOINT_TTL)
+      .exec();
+    return checkpoint;
+  }
+
+  /**
+   * Merge progress into a checkpoint and extend its lifetime
+   */
+  public async update(id: string, patch: Partial<Omit<Checkpoint, 'id' | 'created_at'>>): Promise<Checkpoint | null> {
+    const checkpoint = await this.get(id);
+    if (!checkpoint) return null;
+
+    const updated: Checkpoint = { ...checkpoint, ...patch, updated_at: new Date().toISOString() };
+    await this.redis.multi()
+      .set(CHECKPOINT_PREFIX + id, JSON.stringify(updated), 'EX', CHECKPOINT_TTL)
+      .expire(`${CHECKPOINT_PREFIX}${id}:message`, CHECKPOINT_TTL)
+      .exec();
+    return updated;
+  }
+
+  /**
+   * The message a checkpointed request was started with
+   */
+  public async getMessage(id: string): Promise<string | null> {
+    return this.redis.get(`${CHECKPOINT_PREFIX}${id}:message`);
+  }
+
+  /**
+   * Drop a checkpoint once its request has completed
+   */
+  public async clear(id: string): Promise<void> {
+    await this.redis.del(CHECKPOINT_PREFIX + id, `${CHECKPOINT_PREFIX}${id}:message`);
+  }
+}
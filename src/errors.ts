@@ -0,0 +1,168 @@
+/**
+ * Error handling for Toqan AI Bridge
+ *
+ * Maps failures (Toqan axios errors, bridge validation errors, Fastify errors)
+ * to Anthropic's error envelope: { type: "error", error: { type, message } },
+ * or OpenAI's { error: { message, type, code } } on the OpenAI-compatible endpoint.
+ */
+
+import type { FastifyReply } from 'fastify';
+
+export type AnthropicErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'not_found_error'
+  | 'rate_limit_error'
+  | 'api_error'
+  | 'overloaded_error'
+  | 'timeout';
+
+export interface AnthropicErrorEnvelope {
+  type: 'error';
+  error: {
+    type: AnthropicErrorType;
+    message: string;
+  };
+}
+
+export interface OpenAIErrorEnvelope {
+  error: {
+    message: string;
+    type: AnthropicErrorType;
+    code: string | null;
+  };
+}
+
+/** Envelope shape an endpoint answers errors with */
+export type ErrorFormat = 'anthropic' | 'openai';
+
+/** Seconds clients are told to wait when Toqan rate limits or is overloaded without saying how long */
+export const DEFAULT_RETRY_AFTER = Number(process.env.DEFAULT_RETRY_AFTER || 10);
+
+/**
+ * Error carrying the Anthropic error type and HTTP status to answer with
+ */
+export class BridgeError extends Error {
+  public readonly type: AnthropicErrorType;
+  public readonly statusCode: number;
+  /** Seconds for the retry-after header, when retrying later makes sense */
+  public readonly retryAfter?: number;
+
+  constructor(type: AnthropicErrorType, message: string, statusCode: number, retryAfter?: number) {
+    super(message);
+    this.name = 'BridgeError';
+    this.type = type;
+    this.statusCode = statusCode;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * Anthropic error envelope for this error
+   */
+  public toEnvelope(): AnthropicErrorEnvelope {
+    return { type: 'error', error: { type: this.type, message: this.message } };
+  }
+
+  /**
+   * OpenAI error envelope for this error
+   */
+  public toOpenAIEnvelope(): OpenAIErrorEnvelope {
+    return { error: { message: this.message, type: this.type, code: null } };
+  }
+}
+
+/**
+ * Shorthand for a 400 invalid_request_error
+ */
+export function invalidRequest(message: string): BridgeError {
+  return new BridgeError('invalid_request_error', message, 400);
+}
+
+/**
+ * Classify any error into a BridgeError. Axios errors are mapped from the upstream
+ * status (or the network failure), Fastify errors from their statusCode.
+ */
+export function classifyError(error: any): BridgeError {
+  if (error instanceof BridgeError) return error;
+
+  const upstreamStatus: number | undefined = error?.response?.status;
+  const message = upstreamMessage(error);
+
+  if (upstreamStatus) {
+    const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+
+    if (upstreamStatus === 401 || upstreamStatus === 403) {
+      return new BridgeError('authentication_error', `Toqan rejected the API key: ${message}`, 401);
+    }
+    if (upstreamStatus === 429) {
+      return new BridgeError('rate_limit_error', `Toqan rate limit reached: ${message}`, 429, retryAfter ?? DEFAULT_RETRY_AFTER);
+    }
+    if (upstreamStatus === 408 || upstreamStatus === 504) {
+      return new BridgeError('timeout', `Toqan timed out: ${message}`, 504);
+    }
+    if (upstreamStatus === 503 || upstreamStatus === 529) {
+      return new BridgeError('overloaded_error', `Toqan is overloaded: ${message}`, 529, retryAfter ?? DEFAULT_RETRY_AFTER);
+    }
+    if (upstreamStatus >= 500) {
+      return new BridgeError('api_error', `Toqan API error (${upstreamStatus}): ${message}`, 502);
+    }
+    return new BridgeError('invalid_request_error', `Toqan rejected the request: ${message}`, upstreamStatus);
+  }
+
+  if (error?.isAxiosError || error?.code) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || /timeout/i.test(error.message || '')) {
+      return new BridgeError('timeout', `Request to Toqan timed out: ${error.message}`, 504);
+    }
+    if (['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN'].includes(error.code)) {
+      return new BridgeError('overloaded_error', `Toqan is unreachable: ${error.message}`, 529, DEFAULT_RETRY_AFTER);
+    }
+  }
+
+  // Fastify errors (malformed JSON, multipart limits, ...) carry their own 4xx status
+  if (typeof error?.statusCode === 'number' && error.statusCode >= 400 && error.statusCode < 500) {
+    return new BridgeError('invalid_request_error', error.message, error.statusCode);
+  }
+
+  return new BridgeError('api_error', message || 'Unknown error occurred.', 500);
+}
+
+/**
+ * Send an error as an Anthropic (or OpenAI) error envelope, with retry-after when it applies
+ */
+export function sendError(reply: FastifyReply, error: any, format: ErrorFormat = 'anthropic'): FastifyReply {
+  const bridgeError = classifyError(error);
+
+  if (bridgeError.retryAfter !== undefined) {
+    reply.header('retry-after', String(bridgeError.retryAfter));
+  }
+  // Smart requests that failed part-way can be retried or resumed from their checkpoint
+  if (typeof error?.checkpointId === 'string') {
+    reply.header('x-checkpoint-id', error.checkpointId);
+  }
+
+  const envelope = format === 'openai' ? bridgeError.toOpenAIEnvelope() : bridgeError.toEnvelope();
+  return reply.status(bridgeError.statusCode).send(envelope);
+}
+
+function upstreamMessage(error: any): string {
+  const data = error?.response?.data;
+  if (typeof data === 'string' && data.trim()) return data.trim();
+  if (typeof data?.error === 'string') return data.error;
+  if (typeof data?.error?.message === 'string') return data.error.message;
+  if (typeof data?.message === 'string') return data.message;
+  if (typeof data?.detail === 'string') return data.detail;
+  return error?.message || '';
+}
+
+// retry-after is either delta-seconds or an HTTP date
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+
+  return undefined;
+}
@@ -0,0 +1,205 @@
+/**
+ * File Store for Toqan AI Bridge
+ *
+ * Redis-backed registry behind /v1/files: bridge file ids mapped to the Toqan
+ * file they were uploaded as, with filename, mime type, size, sha256 and owner.
+ * Files up to FILE_CONTENT_MAX_BYTES also keep their bytes so they can be
+ * downloaded again; Toqan has no download endpoint for uploads. The upload
+ * cache maps payload hashes to Toqan file ids so identical bytes (screenshots
+ * resent with every turn) are uploaded once.
+ */
+
+import type Redis from 'ioredis';
+import crypto from 'crypto';
+import { currentModel } from './modelRegistry';
+
+export const FILE_PREFIX = "toqan:file:";
+export const FILE_INDEX_PREFIX = "toqan:files:";
+export const UPLOAD_CACHE_PREFIX = "toqan:upload:";
+
+/** Largest upload whose content is kept for /v1/files/:id/content */
+const FILE_CONTENT_MAX_BYTES = Number(process.env.FILE_CONTENT_MAX_BYTES || 10 * 1024 * 1024);
+/** Seconds an uploaded payload's Toqan file id is reused */
+const UPLOAD_CACHE_TTL = Number(process.env.UPLOAD_CACHE_TTL_SECONDS || 7 * 24 * 60 * 60);
+
+export interface FileRecord {
+  id: string;
+  /** File id Toqan answered the upload with; null for files Toqan generated */
+  toqan_file_id: string | null;
+  /** Model whose Toqan backend holds toqan_file_id */
+  model?: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  sha256: string;
+  /** Client the file belongs to (hash of its API key) */
+  owner: string;
+  created_at: string;
+  /** Whether the bytes are stored (or can be fetched from Toqan) and can be downloaded */
+  downloadable: boolean;
+  /** Toqan conversation attachment the file came from, for files Toqan generated */
+  origin?: {
+    conversation_id: string;
+    file_name: string;
+    model?: string;
+  };
+}
+
+/** File metadata as returned by the API */
+export interface FileMetadata {
+  id: string;
+  type: 'file';
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+  downloadable: boolean;
+}
+
+/**
+ * sha256 of a payload, as recorded on files and used by the upload cache
+ */
+export function contentHash(bytes: Buffer): string {
+  return crypto.createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Owner of the files a request can see: a hash of its API key, so keys are never stored
+ */
+export function fileOwner(headers: Record<string, string | string[] | undefined>): string {
+  const header = headers['x-api-key'] || headers['authorization'] || headers['anthropic-api-key'];
+  const key = typeof header === 'string' ? header.replace(/^Bearer\s+/i, '').trim() : '';
+  if (!key) return 'anonymous';
+  return `key_${crypto.createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * File store class
+ */
+export class FileStore {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  /**
+   * Register an uploaded file, keeping its bytes when they are small enough
+   */
+  public async createFile(
+    fields: Pick<FileRecord, 'toqan_file_id' | 'filename' | 'mime_type' | 'owner' | 'origin'>,
+    content: Buffer
+  ): Promise<FileRecord> {
+    const now = new Date();
+    const stored = content.length <= FILE_CONTENT_MAX_BYTES;
+    const record: FileRecord = {
+      id: `file_${crypto.randomBytes(12).toString('hex')}`,
+      ...fields,
+      model: currentModel()?.id,
+      size_bytes: content.length,
+      sha256: contentHash(content),
+      created_at: now.toISOString(),
+      downloadable: stored || !!fields.origin
+    };
+
+    const key = FILE_PREFIX + record.id;
+    const tx = this.redis.multi();
+    tx.set(key, JSON.stringify(record));
+    if (stored) tx.set(`${key}:content`, content);
+    tx.zadd(FILE_INDEX_PREFIX + record.owner, now.getTime(), record.id);
+    await tx.exec();
+
+    return record;
+  }
+
+  /**
+   * Read a file record, or null if it doesn't exist
+   */
+  public async getFile(fileId: string): Promise<FileRecord | null> {
+    const raw = await this.redis.get(FILE_PREFIX + fileId);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as FileRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Files of an owner, newest first. afterId / beforeId page relative to a file in that order.
+   */
+  public async listFiles(owner: string, limit: number, afterId?: string, beforeId?: string): Promise<{ data: FileRecord[]; has_more: boolean }> {
+    const ids = await this.redis.zrevrange(FILE_INDEX_PREFIX + owner, 0, -1);
+    let start = 0;
+    let end = ids.length;
+    if (afterId) start = ids.indexOf(afterId) + 1;
+    if (beforeId) end = Math.max(0, ids.indexOf(beforeId));
+    if (beforeId) start = Math.max(start, end - limit);
+
+    const data: FileRecord[] = [];
+    let next = start;
+    for (; next < end && data.length < limit; next++) {
+      const file = await this.getFile(ids[next]);
+      if (file) {
+        data.push(file);
+      } else {
+        await this.redis.zrem(FILE_INDEX_PREFIX + owner, ids[next]);
+      }
+    }
+
+    return { data, has_more: next < end };
+  }
+
+  /**
+   * Stored bytes of a file, or null when they weren't kept
+   */
+  public async getContent(fileId: string): Promise<Buffer | null> {
+    return this.redis.getBuffer(`${FILE_PREFIX}${fileId}:content`);
+  }
+
+  /**
+   * Remove a file from the registry. The Toqan upload itself can't be deleted.
+   */
+  public async deleteFile(file: FileRecord): Promise<void> {
+    const key = FILE_PREFIX + file.id;
+    await this.redis.multi()
+      .del(key, `${key}:content`)
+      .zrem(FILE_INDEX_PREFIX + file.owner, file.id)
+      .exec();
+  }
+
+  /**
+   * Toqan file id an identical payload was uploaded as, while it is cached.
+   * Files live on a model's backend, so the cache is per model.
+   */
+  public async getCachedUpload(sha256: string): Promise<string | null> {
+    return this.redis.get(this.uploadCacheKey(sha256));
+  }
+
+  /**
+   * Remember the Toqan file id a payload was uploaded as
+   */
+  public async cacheUpload(sha256: string, toqanFileId: string): Promise<void> {
+    await this.redis.set(this.uploadCacheKey(sha256), toqanFileId, 'EX', UPLOAD_CACHE_TTL);
+  }
+
+  private uploadCacheKey(sha256: string): string {
+    return `${UPLOAD_CACHE_PREFIX}${currentModel()?.id ?? 'default'}:${sha256}`;
+  }
+}
+
+/**
+ * API shape of a file record
+ */
+export function toFileMetadata(file: FileRecord): FileMetadata {
+  return {
+    id: file.id,
+    type: 'file',
+    filename: file.filename,
+    mime_type: file.mime_type,
+    size_bytes: file.size_bytes,
+    created_at: file.created_at,
+    downloadable: file.downloadable
+  };
+}
@@ -83,7 +83,7 @@ export class FileUploadService {
       // Upload with retry logic
       const startTime = Date.now();
       const fileId = await this.uploadWithRetry(
-        tempFilePath, 
+        fs.readFileSync(tempFilePath), 
         filename, 
         mergedOptions.contentType!,
         mergedOptions.maxRetries!
@@ -148,7 +148,7 @@ export class FileUploadService {
       
       const startTime = Date.now();
       const fileId = await this.uploadWithRetry(
-        filePath,
+        fs.readFileSync(filePath),
         filename,
         mergedOptions.contentType!,
         mergedOptions.maxRetries!
@@ -171,6 +171,19 @@ export class FileUploadService {
     }
   }
 
+  /**
+   * Upload raw bytes (a client's file) to Toqan, returning the Toqan file id
+   */
+  public async uploadBuffer(
+    bytes: Buffer,
+    filename: string,
+    contentType: string,
+    options: Partial<FileUploadOptions> = {}
+  ): Promise<string> {
+    const mergedOptions = { ...this.options, ...options };
+    return this.uploadWithRetry(bytes, filename, contentType, mergedOptions.maxRetries);
+  }
+
   /**
    * Get info about uploaded file
    */
@@ -211,7 +224,7 @@ export class FileUploadService {
    * Upload with retry logic
    */
   private async uploadWithRetry(
-    filePath: string, 
+    bytes: Buffer, 
     filename: string, 
     contentType: string,
     maxRetries: number
@@ -220,9 +233,10 @@ export class FileUploadService {
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const fileBuffer = fs.readFileSync(filePath);
-        const response = await toqanUploadFile(fileBuffer, filename, contentType);
-        return response.file_id;
+        const response = await toqanUploadFile(bytes, filename, contentType);
+        const fileId = response.file_id || response.id;
+        if (!fileId) throw new Error('unexpected toqan upload response');
+        return fileId;
         
       } catch (error) {
         lastError = error as Error;
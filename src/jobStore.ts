@@ -0,0 +1,132 @@
+/**
+ * Job Store for Toqan AI Bridge
+ *
+ * Redis-backed state of asynchronous /v1/jobs requests: status, the processing
+ * steps recorded so far, the final SmartRequestResult, and the ProgressUpdate
+ * log the events endpoint replays. Any replica can serve status and events for
+ * a job run by another one.
+ */
+
+import type Redis from 'ioredis';
+import crypto from 'crypto';
+import { AnthropicErrorEnvelope } from './errors';
+import { ProgressUpdate } from './progressStreamManager';
+import { ProcessingStep, SmartRequestResult } from './smartRequestHandler';
+
+export const JOB_PREFIX = "toqan:job:";
+
+/** Seconds a job is kept after it was last updated */
+const JOB_RETENTION = Number(process.env.JOB_RETENTION_SECONDS || 24 * 60 * 60);
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  type: 'job';
+  status: JobStatus;
+  /** Client session the job's conversation is mapped to */
+  sessionId: string;
+  created_at: string;
+  updated_at: string;
+  /** Steps recorded so far by the smart request handler */
+  processingSteps: ProcessingStep[];
+  /** Final result once the job has succeeded */
+  result: SmartRequestResult | null;
+  /** Error envelope once the job has failed */
+  error: AnthropicErrorEnvelope | null;
+}
+
+/**
+ * Job store class
+ */
+export class JobStore {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  /**
+   * Store a new queued job
+   */
+  public async createJob(sessionId: string): Promise<JobRecord> {
+    const now = new Date().toISOString();
+    const job: JobRecord = {
+      id: `job_${crypto.randomBytes(12).toString('hex')}`,
+      type: 'job',
+      status: 'queued',
+      sessionId,
+      created_at: now,
+      updated_at: now,
+      processingSteps: [],
+      result: null,
+      error: null
+    };
+
+    await this.save(job);
+    return job;
+  }
+
+  /**
+   * Read a job, or null if it doesn't exist (or has expired)
+   */
+  public async getJob(jobId: string): Promise<JobRecord | null> {
+    const raw = await this.redis.get(JOB_PREFIX + jobId);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as JobRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Merge fields into a job record
+   */
+  public async updateJob(jobId: string, patch: Partial<Omit<JobRecord, 'id' | 'type' | 'created_at'>>): Promise<JobRecord | null> {
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+
+    const updated: JobRecord = { ...job, ...patch, updated_at: new Date().toISOString() };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Append a processing step to the job record
+   */
+  public async addStep(jobId: string, step: ProcessingStep): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job) return;
+    await this.updateJob(jobId, { processingSteps: [...job.processingSteps, step] });
+  }
+
+  /**
+   * Append a progress update to the job's event log
+   */
+  public async addEvent(jobId: string, update: ProgressUpdate): Promise<void> {
+    const key = `${JOB_PREFIX}${jobId}:events`;
+    await this.redis.rpush(key, JSON.stringify({ ...update, timestamp: update.timestamp ?? Date.now() }));
+    await this.redis.expire(key, JOB_RETENTION);
+  }
+
+  /**
+   * Progress updates from position `from` onwards
+   */
+  public async getEvents(jobId: string, from: number = 0): Promise<ProgressUpdate[]> {
+    const entries = await this.redis.lrange(`${JOB_PREFIX}${jobId}:events`, from, -1);
+    return entries.map(entry => JSON.parse(entry) as ProgressUpdate);
+  }
+
+  private async save(job: JobRecord): Promise<void> {
+    await this.redis.set(JOB_PREFIX + job.id, JSON.stringify(job), 'EX', JOB_RETENTION);
+  }
+}
+
+/**
+ * Whether a job has finished, successfully or not
+ */
+export function isJobFinished(job: JobRecord): boolean {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
@@ -0,0 +1,165 @@
+/**
+ * Model Registry for Toqan AI Bridge
+ *
+ * Maps the model names clients send to a Toqan backend (base URL + API key) and
+ * the request defaults that go with it (strategy, poll timeout). The registry is
+ * read from TOQAN_MODELS (JSON) or TOQAN_MODELS_FILE; without either, a single
+ * default model accepts any name and uses TOQAN_BASE_URL / TOQAN_API_KEY.
+ *
+ * The model of the request being handled is kept in async context, so the Toqan
+ * client and the polling loops pick up its backend and options without threading.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import { BridgeError } from './errors';
+import type { SmartRequestOptions } from './smartRequestHandler';
+
+export const DEFAULT_MODEL = process.env.DEFAULT_MODEL || 'claude-3-sonnet-20240229';
+
+/** Release date reported for models whose config doesn't give one */
+const DEFAULT_CREATED_AT = '2024-02-29T00:00:00Z';
+
+export interface ModelConfig {
+  /** Model name clients send */
+  id: string;
+  /** Human-readable name for /v1/models */
+  display_name?: string;
+  /** Other names routed to this model; a trailing * matches any suffix, "*" matches everything */
+  aliases?: string[];
+  /** Toqan API base URL (defaults to TOQAN_BASE_URL) */
+  base_url?: string;
+  /** Toqan API key (defaults to TOQAN_API_KEY) */
+  api_key?: string;
+  /** Environment variable holding the API key, to keep secrets out of the registry */
+  api_key_env?: string;
+  /** Smart request strategy used unless the client forces one */
+  strategy?: SmartRequestOptions['strategy'];
+  /** Seconds to poll get_answer before giving up (defaults to POLL_TIMEOUT) */
+  poll_timeout?: number;
+  /** ISO release date for /v1/models */
+  created_at?: string;
+}
+
+export interface ResolvedModel {
+  id: string;
+  displayName: string;
+  baseUrl: string;
+  apiKey: string;
+  /** Unset when the model leaves the strategy to FORCE_STRATEGY / auto-detection */
+  strategy?: SmartRequestOptions['strategy'];
+  /** Seconds */
+  pollTimeout: number;
+  createdAt: string;
+}
+
+const modelContext = new AsyncLocalStorage<ResolvedModel>();
+
+/**
+ * Run fn with model as the current model of the request
+ */
+export function runWithModel<T>(model: ResolvedModel, fn: () => T): T {
+  return modelContext.run(model, fn);
+}
+
+/**
+ * Model of the request being handled, if a route set one
+ */
+export function currentModel(): ResolvedModel | undefined {
+  return modelContext.getStore();
+}
+
+/**
+ * Model registry class
+ */
+export class ModelRegistry {
+  private configs: ModelConfig[];
+
+  constructor(configs: ModelConfig[]) {
+    if (configs.length === 0) throw new Error('Model registry needs at least one model');
+    this.configs = configs;
+  }
+
+  /**
+   * Registry from TOQAN_MODELS / TOQAN_MODELS_FILE, or the catch-all default model
+   */
+  public static fromEnv(env: NodeJS.ProcessEnv = process.env): ModelRegistry {
+    const raw = env.TOQAN_MODELS || (env.TOQAN_MODELS_FILE ? fs.readFileSync(env.TOQAN_MODELS_FILE, 'utf8') : '');
+    if (!raw.trim()) {
+      return new ModelRegistry([{ id: DEFAULT_MODEL, aliases: ['*'] }]);
+    }
+
+    const parsed = JSON.parse(raw);
+    // Either a list of configs or an object keyed by model id
+    const configs: ModelConfig[] = Array.isArray(parsed)
+      ? parsed
+      : Object.entries<Omit<ModelConfig, 'id'>>(parsed).map(([id, config]) => ({ ...config, id }));
+
+    return new ModelRegistry(configs);
+  }
+
+  /**
+   * Every registered model, in configuration order
+   */
+  public list(): ResolvedModel[] {
+    return this.configs.map(config => this.toResolved(config));
+  }
+
+  /**
+   * Model registered under a name (id first, then aliases), or null
+   */
+  public get(name: string): ResolvedModel | null {
+    const config = this.configs.find(c => c.id === name)
+      || this.configs.find(c => (c.aliases || []).some(alias => matchesAlias(alias, name)));
+    return config ? this.toResolved(config) : null;
+  }
+
+  /**
+   * Model for a request; requests without a model get the first registered one
+   */
+  public resolve(name?: string): ResolvedModel {
+    if (!name) return this.toResolved(this.configs[0]);
+
+    const model = this.get(name);
+    if (!model) {
+      throw new BridgeError('not_found_error', `model: ${name}`, 404);
+    }
+    return model;
+  }
+
+  private toResolved(config: ModelConfig): ResolvedModel {
+    const apiKey = config.api_key
+      ?? (config.api_key_env ? process.env[config.api_key_env] : undefined)
+      ?? process.env.TOQAN_API_KEY
+      ?? '';
+
+    return {
+      id: config.id,
+      displayName: config.display_name || config.id,
+      baseUrl: (config.base_url || process.env.TOQAN_BASE_URL || 'https://api.coco.prod.toqan.ai/api').replace(/\/+$/, ''),
+      apiKey,
+      strategy: config.strategy,
+      pollTimeout: config.poll_timeout ?? Number(process.env.POLL_TIMEOUT || 30),
+      createdAt: config.created_at || DEFAULT_CREATED_AT
+    };
+  }
+}
+
+/**
+ * Model object in the Anthropic /v1/models shape
+ */
+export function toAnthropicModel(model: ResolvedModel) {
+  return { type: 'model', id: model.id, display_name: model.displayName, created_at: model.createdAt };
+}
+
+/**
+ * Model object in the OpenAI /v1/models shape
+ */
+export function toOpenAIModel(model: ResolvedModel) {
+  return { id: model.id, object: 'model', created: Math.floor(Date.parse(model.createdAt) / 1000), owned_by: 'toqan' };
+}
+
+function matchesAlias(alias: string, name: string): boolean {
+  if (alias.endsWith('*')) return name.startsWith(alias.slice(0, -1));
+  return alias === name;
+}
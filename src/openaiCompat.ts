@@ -0,0 +1,246 @@
+/**
+ * OpenAI compatibility for Toqan AI Bridge
+ *
+ * Translates /v1/chat/completions requests into the Anthropic request the messages
+ * flow already handles, and its Anthropic responses back into chat.completion objects.
+ */
+
+import { invalidRequest } from './errors';
+import {
+  AnthropicMessage,
+  AnthropicRequest,
+  ContentBlock,
+  OpenAIChatCompletion,
+  OpenAIChatMessage,
+  OpenAIChatRequest,
+  OpenAIContentPart,
+  OpenAIFunction,
+  OpenAIToolCall,
+  Tool,
+  ToolChoice
+} from './types';
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+/**
+ * Anthropic request equivalent to a chat completions request
+ */
+export function toAnthropicRequest(body: OpenAIChatRequest): AnthropicRequest {
+  if (!body || !Array.isArray(body.messages)) {
+    throw invalidRequest("messages must be an array");
+  }
+
+  const system: string[] = [];
+  const messages: AnthropicMessage[] = [];
+
+  for (const message of body.messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push(partsToText(message.content));
+        break;
+      case 'user':
+        messages.push({ role: 'user', content: toContent(message.content) });
+        break;
+      case 'assistant':
+        messages.push({ role: 'assistant', content: assistantContent(message) });
+        break;
+      case 'tool':
+      case 'function':
+        appendToolResult(messages, message);
+        break;
+      default:
+        throw invalidRequest(`Unsupported message role: ${message.role}`);
+    }
+  }
+
+  const tools = [
+    ...(body.tools || []).filter(tool => tool?.type === 'function').map(tool => toTool(tool.function)),
+    ...(body.functions || []).map(toTool)
+  ];
+  const stop = typeof body.stop === 'string' ? [body.stop] : body.stop;
+
+  return {
+    model: body.model,
+    messages,
+    system: system.filter(Boolean).join('\n\n') || undefined,
+    max_tokens: body.max_tokens ?? body.max_completion_tokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    stop_sequences: stop?.length ? stop : undefined,
+    stream: body.stream,
+    conversation_id: body.conversation_id,
+    tools: tools.length > 0 ? tools : undefined,
+    tool_choice: toToolChoice(body),
+    metadata: body.user ? { user_id: body.user } : undefined
+  };
+}
+
+/**
+ * OpenAI finish_reason for an Anthropic stop_reason
+ */
+export function toFinishReason(stopReason: string | null): string | null {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    default:
+      return null;
+  }
+}
+
+/**
+ * chat.completion object for an Anthropic message produced by the messages flow
+ */
+export function toChatCompletion(message: any): OpenAIChatCompletion {
+  const blocks: any[] = Array.isArray(message.content) ? message.content : [];
+  const text = blocks.filter(block => block.type === 'text').map(block => block.text || '').join('');
+  const toolCalls = blocks.filter(block => block.type === 'tool_use').map(toToolCall);
+  const usage = message.usage || { input_tokens: 0, output_tokens: 0 };
+
+  return {
+    id: toCompletionId(message.id),
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: message.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || (toolCalls.length > 0 ? null : ''),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      },
+      finish_reason: toFinishReason(message.stop_reason)
+    }],
+    usage: {
+      prompt_tokens: usage.input_tokens,
+      completion_tokens: usage.output_tokens,
+      total_tokens: usage.input_tokens + usage.output_tokens
+    }
+  };
+}
+
+/**
+ * OpenAI tool call for a tool_use block
+ */
+export function toToolCall(block: { id?: string; name?: string; input?: Record<string, any> }): OpenAIToolCall {
+  return {
+    id: block.id || `call_${block.name}`,
+    type: 'function',
+    function: { name: block.name || '', arguments: JSON.stringify(block.input ?? {}) }
+  };
+}
+
+/**
+ * chatcmpl- id matching an Anthropic msg_ id
+ */
+export function toCompletionId(messageId?: string): string {
+  return `chatcmpl-${(messageId || Math.random().toString(36).slice(2)).replace(/^msg_/, '')}`;
+}
+
+function toTool(fn: OpenAIFunction): Tool {
+  return {
+    name: fn.name,
+    description: fn.description || '',
+    input_schema: {
+      type: 'object',
+      properties: {},
+      ...(fn.parameters || {})
+    } as Tool['input_schema']
+  };
+}
+
+// tool_choice wins over the legacy function_call
+function toToolChoice(body: OpenAIChatRequest): ToolChoice | undefined {
+  const choice = body.tool_choice ?? body.function_call;
+  if (!choice) return undefined;
+
+  if (typeof choice === 'string') {
+    if (choice === 'required') return { type: 'any' };
+    if (choice === 'none' || choice === 'auto') return { type: choice };
+    throw invalidRequest(`Unsupported tool_choice: ${choice}`);
+  }
+
+  const name = 'function' in choice ? choice.function?.name : choice.name;
+  if (!name) throw invalidRequest("tool_choice must name a function");
+  return { type: 'tool', name };
+}
+
+// Plain text of a system or tool message
+function partsToText(content: OpenAIChatMessage['content']): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map(part => part.text || '').filter(Boolean).join('\n');
+}
+
+// String content stays a string; parts become text and image blocks
+function toContent(content: OpenAIChatMessage['content']): string | ContentBlock[] {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map(toContentBlock);
+}
+
+function toContentBlock(part: OpenAIContentPart): ContentBlock {
+  if (part.type === 'image_url' && part.image_url?.url) {
+    const dataUrl = part.image_url.url.match(DATA_URL_PATTERN);
+    if (dataUrl) {
+      return { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } };
+    }
+    // Toqan can't fetch remote images; the model at least learns where it lives
+    return { type: 'text', text: `[image: ${part.image_url.url}]` };
+  }
+
+  return { type: 'text', text: part.text || '' };
+}
+
+// Assistant text plus its tool calls as tool_use blocks. Legacy function calls carry no
+// id, so one is derived from the function name for the matching function message.
+function assistantContent(message: OpenAIChatMessage): string | ContentBlock[] {
+  const calls = [
+    ...(message.tool_calls || []),
+    ...(message.function_call ? [{ id: `call_${message.function_call.name}`, type: 'function' as const, function: message.function_call }] : [])
+  ];
+  const content = toContent(message.content);
+  if (calls.length === 0) return content;
+
+  const blocks: ContentBlock[] = typeof content === 'string'
+    ? (content ? [{ type: 'text', text: content }] : [])
+    : content;
+
+  for (const call of calls) {
+    blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseArguments(call.function.arguments) });
+  }
+
+  return blocks;
+}
+
+// Consecutive tool messages answer one assistant turn, so they share a user message
+function appendToolResult(messages: AnthropicMessage[], message: OpenAIChatMessage): void {
+  const block: ContentBlock = {
+    type: 'tool_result',
+    tool_use_id: message.tool_call_id || `call_${message.name}`,
+    content: partsToText(message.content)
+  };
+
+  const last = messages[messages.length - 1];
+  if (last?.role === 'user' && Array.isArray(last.content) && last.content.every(b => b.type === 'tool_result')) {
+    last.content.push(block);
+  } else {
+    messages.push({ role: 'user', content: [block] });
+  }
+}
+
+function parseArguments(args: string | undefined): Record<string, any> {
+  if (!args) return {};
+
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
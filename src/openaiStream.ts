@@ -0,0 +1,171 @@
+/**
+ * OpenAI Stream Writer for Toqan AI Bridge
+ *
+ * Emits chat.completion.chunk server-sent events over a raw response: a role chunk,
+ * content and tool_calls deltas, a finish_reason chunk, an optional usage chunk and
+ * the closing [DONE]. Idle connections are kept alive with SSE comments.
+ */
+
+import { FastifyReply } from 'fastify';
+import { MessageStreamWriter, StreamToolUse } from './anthropicStream';
+import { ContentBlock } from './types';
+import { toCompletionId, toFinishReason, toToolCall } from './openaiCompat';
+
+export interface OpenAIStreamOptions {
+  /** Completion ID shared by every chunk */
+  completionId?: string;
+  /** Model name echoed back to the client */
+  model: string;
+  /** Prompt tokens reported in the usage chunk */
+  inputTokens?: number;
+  /** Send a usage chunk before [DONE] (stream_options.include_usage) */
+  includeUsage?: boolean;
+}
+
+/**
+ * Writes OpenAI-compatible SSE chunks for a single assistant message
+ */
+export class OpenAIStreamWriter implements MessageStreamWriter {
+  private reply: FastifyReply['raw'];
+  private options: Required<OpenAIStreamOptions>;
+  private created: number = Math.floor(Date.now() / 1000);
+  private toolCallIndex: number = 0;
+  private closed: boolean = false;
+
+  constructor(reply: FastifyReply['raw'], options: OpenAIStreamOptions) {
+    this.reply = reply;
+    this.options = {
+      completionId: options.completionId ?? toCompletionId(),
+      model: options.model,
+      inputTokens: options.inputTokens ?? 0,
+      includeUsage: options.includeUsage ?? false
+    };
+  }
+
+  /**
+   * Write SSE headers and the chunk announcing the assistant role
+   */
+  public start(): void {
+    this.reply.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+
+    this.writeChunk({ role: 'assistant', content: '' });
+  }
+
+  /**
+   * Send a keep-alive SSE comment
+   */
+  public ping(): void {
+    this.write(': ping\n\n');
+  }
+
+  /**
+   * Send a content delta
+   */
+  public textDelta(text: string): void {
+    if (!text) return;
+    this.writeChunk({ content: text });
+  }
+
+  /**
+   * Chat completions have no reasoning deltas; thinking is not streamed
+   */
+  public thinkingDelta(_thinking: string): void {}
+
+  /**
+   * Send a complete tool call as one tool_calls delta
+   */
+  public toolUse(toolUse: StreamToolUse): void {
+    this.writeChunk({ tool_calls: [{ index: this.toolCallIndex++, ...toToolCall(toolUse) }] });
+  }
+
+  /**
+   * Chat completions have no image or document parts; attachments are not streamed
+   */
+  public contentBlock(_block: ContentBlock): void {}
+
+  /**
+   * Chunks have no content blocks to close
+   */
+  public stopBlock(): void {}
+
+  /**
+   * Send the finish_reason chunk, the usage chunk when requested, and [DONE]
+   */
+  public finish(
+    stopReason: string | null,
+    _stopSequence: string | null = null,
+    outputTokens: number = 0,
+    inputTokens?: number
+  ): void {
+    this.writeChunk({}, toFinishReason(stopReason));
+
+    if (this.options.includeUsage) {
+      const promptTokens = inputTokens ?? this.options.inputTokens;
+      this.writeData({
+        ...this.envelope(),
+        choices: [],
+        usage: { prompt_tokens: promptTokens, completion_tokens: outputTokens, total_tokens: promptTokens + outputTokens }
+      });
+    }
+
+    this.write('data: [DONE]\n\n');
+  }
+
+  /**
+   * Send an error payload (used once headers have already been sent)
+   */
+  public error(type: string, message: string): void {
+    this.writeData({ error: { message, type, code: null } });
+  }
+
+  /**
+   * End the underlying response
+   */
+  public end(): void {
+    if (this.closed) return;
+    this.closed = true;
+    try { this.reply.end(); } catch {}
+  }
+
+  /**
+   * Check if the stream is closed
+   */
+  public isClosed(): boolean {
+    return this.closed;
+  }
+
+  private envelope() {
+    return {
+      id: this.options.completionId,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.options.model
+    };
+  }
+
+  private writeChunk(delta: Record<string, any>, finishReason: string | null = null): void {
+    this.writeData({
+      ...this.envelope(),
+      choices: [{ index: 0, delta, finish_reason: finishReason }]
+    });
+  }
+
+  private writeData(data: any): void {
+    this.write(`data: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private write(payload: string): void {
+    if (this.closed) return;
+
+    try {
+      this.reply.write(payload);
+    } catch (error) {
+      console.error('Failed to write chat.completion.chunk:', error);
+      this.closed = true;
+    }
+  }
+}
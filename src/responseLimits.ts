@@ -0,0 +1,84 @@
+/**
+ * Response limits for Toqan AI Bridge
+ *
+ * Toqan has no notion of stop sequences or output token limits, so the bridge
+ * applies stop_sequences and max_tokens to the answer text after the fact.
+ */
+
+import { smartEstimateTokens, truncateToTokenLimit } from './utils/tokenEstimation';
+
+export interface ResponseLimits {
+  stop_sequences?: string[];
+  max_tokens?: number;
+}
+
+export interface LimitedAnswer {
+  /** Answer text after truncation */
+  text: string;
+  /** Why the text was cut, or null if it was left whole */
+  stopReason: 'stop_sequence' | 'max_tokens' | null;
+  /** The stop sequence that matched */
+  stopSequence: string | null;
+}
+
+/**
+ * Cut the text at the first stop sequence, then at max_tokens.
+ *
+ * With partial=true the text is still growing (streaming), so a trailing fragment
+ * that may turn into a stop sequence is held back as well.
+ */
+export function applyResponseLimits(text: string, limits: ResponseLimits, partial = false): LimitedAnswer {
+  let limited = text;
+  let stopReason: LimitedAnswer['stopReason'] = null;
+  let stopSequence: string | null = null;
+
+  const match = findStopSequence(limited, limits.stop_sequences);
+  if (match) {
+    limited = limited.slice(0, match.index);
+    stopReason = 'stop_sequence';
+    stopSequence = match.sequence;
+  } else if (partial) {
+    limited = holdBackPartialStop(limited, limits.stop_sequences);
+  }
+
+  if (limits.max_tokens && limits.max_tokens > 0 && smartEstimateTokens(limited) > limits.max_tokens) {
+    limited = truncateToTokenLimit(limited, limits.max_tokens);
+    stopReason = 'max_tokens';
+    stopSequence = null;
+  }
+
+  return { text: limited, stopReason, stopSequence };
+}
+
+/**
+ * Earliest occurrence of any stop sequence in the text
+ */
+export function findStopSequence(text: string, stopSequences?: string[]): { index: number; sequence: string } | null {
+  let best: { index: number; sequence: string } | null = null;
+
+  for (const sequence of stopSequences || []) {
+    if (!sequence) continue;
+    const index = text.indexOf(sequence);
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { index, sequence };
+    }
+  }
+
+  return best;
+}
+
+// Drop a suffix of the text that is also a prefix of some stop sequence
+function holdBackPartialStop(text: string, stopSequences?: string[]): string {
+  let keep = text.length;
+
+  for (const sequence of stopSequences || []) {
+    for (let len = Math.min(sequence.length - 1, text.length); len > 0; len--) {
+      if (text.endsWith(sequence.slice(0, len))) {
+        keep = Math.min(keep, text.length - len);
+        break;
+      }
+    }
+  }
+
+  return text.slice(0, keep);
+}
@@ -1,15 +1,63 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { getRedis } from "./redisClient";
-import { createConversation, continueConversation, getAnswer, uploadFile, findConversation } from "./toqanClient";
-import { AnthropicRequest, AnthropicCompletionResponse, AnthropicResponse, ContentBlock } from "./types";
+import { createConversation, continueConversation, getAnswer, uploadFile, findConversation, downloadFile } from "./toqanClient";
+import { AnthropicRequest, AnthropicCompletionResponse, AnthropicResponse, AnthropicMessage, ContentBlock, OpenAIChatRequest, Tool, ToolChoice } from "./types";
 import { SmartRequestHandler, SmartRequestOptions } from "./smartRequestHandler";
+import { AnthropicStreamOptions, AnthropicStreamWriter, MessageStreamWriter } from "./anthropicStream";
+import { OpenAIStreamWriter } from "./openaiStream";
+import { toAnthropicRequest, toChatCompletion } from "./openaiCompat";
+import { renderToolCatalog, hashToolCatalog } from "./toolCatalog";
+import { applyResponseLimits, ResponseLimits } from "./responseLimits";
+import { estimateContentTokens, estimateInputTokens, TokenUsage } from "./tokenUsage";
+import { ThinkingBlock, beforeLaterThinking, extractThinking, leadingThinking, placedThinkingBlocks, thinkingEnabled } from "./thinking";
+import { BridgeError, ErrorFormat, classifyError, invalidRequest, sendError } from "./errors";
+import { extractToolCalls, findToolCallProblems, buildRepairPrompt, normalizeToolChoice, satisfiesToolChoice } from "./toolCallParser";
+import { SessionStore, followUpSessionId, hashContent, hashMessage, resolveSessionId } from "./sessionStore";
+import { BatchStore, BatchRequest } from "./batchStore";
+import { BatchProcessor } from "./batchProcessor";
+import { JobStore, isJobFinished } from "./jobStore";
+import { SessionQueue, SessionLease } from "./sessionQueue";
+import { CheckpointStore } from "./checkpointStore";
+import { FileStore, FileRecord, contentHash, fileOwner, toFileMetadata } from "./fileStore";
+import { AttachmentService } from "./attachmentService";
+import { FileUploadService } from "./fileUploadService";
+import { ProgressStreamManager } from "./progressStreamManager";
+import { DEFAULT_MODEL, ModelRegistry, currentModel, runWithModel, toAnthropicModel, toOpenAIModel } from "./modelRegistry";
 import { smartEstimateTokens, exceedsTokenLimit } from "./utils/tokenEstimation";
 import fs from "fs";
 import path from "path";
 
-const MAP_KEY = "toqan:conv_map";
-const META_PREFIX = "toqan:meta:";
-const LOCK_PREFIX = "toqan:lock:";
+const STREAM_HOLD_MARKERS = ["USE_TOOL", "```tool_call", "<tool_use", "<think"];
+const DIRECT_TOKEN_LIMIT = 115000;
+const BATCH_MAX_REQUESTS = Number(process.env.BATCH_MAX_REQUESTS || 100000);
+// Largest batch creation body; thousands of prompts exceed Fastify's 1 MiB default
+const BATCH_MAX_BODY_BYTES = Number(process.env.BATCH_MAX_BODY_BYTES || 256 * 1024 * 1024);
+const ROTATION_SUMMARY_PROMPT = "System: This conversation is about to be continued in a new one. Summarize it for that purpose: the goals, decisions, facts, file names, code and open tasks needed to carry on, in as much detail as required. Reply with the summary only.";
+
+// Wire protocol a messages turn is answered in: /v1/messages (Anthropic) or /v1/chat/completions (OpenAI)
+interface ResponseProtocol {
+  errorFormat: ErrorFormat;
+  streamWriter(raw: FastifyReply['raw'], options: AnthropicStreamOptions): MessageStreamWriter;
+  formatResponse(message: any): any;
+}
+
+const anthropicProtocol: ResponseProtocol = {
+  errorFormat: 'anthropic',
+  streamWriter: (raw, options) => new AnthropicStreamWriter(raw, options),
+  formatResponse: (message) => message
+};
+
+function openAIProtocol(request: OpenAIChatRequest): ResponseProtocol {
+  return {
+    errorFormat: 'openai',
+    streamWriter: (raw, options) => new OpenAIStreamWriter(raw, {
+      model: options.model,
+      inputTokens: options.inputTokens,
+      includeUsage: !!request.stream_options?.include_usage
+    }),
+    formatResponse: toChatCompletion
+  };
+}
 
 // Debug logging helper
 const logFile = path.join(process.cwd(), 'debug.log');
@@ -21,32 +69,129 @@ function debugLog(message: string, data?: any) {
 
 export default async function routes(fastify: FastifyInstance) {
   const redis = getRedis();
+  const sessions = new SessionStore(redis);
+  const checkpoints = new CheckpointStore(redis);
+  const files = new FileStore(redis);
+  const fileUploads = new FileUploadService();
+  const attachments = new AttachmentService(sessions, files);
+  // Turns of a session run one at a time, in arrival order
+  const sessionQueue = new SessionQueue(redis, {
+    maxQueued: Number(process.env.SESSION_QUEUE_MAX || 8),
+    maxWait: Number(process.env.SESSION_QUEUE_WAIT_SECONDS || 120) * 1000,
+    leaseTtl: Number(process.env.SESSION_LEASE_TTL_SECONDS || 30) * 1000
+  });
 
   // Smart request handler configuration
   const smartRequestOptions: SmartRequestOptions = {
     strategy: (process.env.FORCE_STRATEGY as any) || 'auto',
     pollTimeout: parseInt(process.env.POLL_TIMEOUT || '30000'),
-    maxPollAttempts: parseInt(process.env.MAX_POLL_ATTEMPTS || '240')
+    maxPollAttempts: parseInt(process.env.MAX_POLL_ATTEMPTS || '240'),
+    checkpoints
   };
   
   const smartHandler = new SmartRequestHandler(smartRequestOptions);
+  const models = ModelRegistry.fromEnv();
+  const batches = new BatchStore(redis);
+  const jobs = new JobStore(redis);
+
+  // Batch items run as ordinary /v1/messages requests. An item without a conversation_id gets
+  // a session of its own, discarded once it is answered so batches don't fill /v1/sessions.
+  const batchProcessor = new BatchProcessor(batches, async (request, batchId) => {
+    const itemSession = request.params.conversation_id ? undefined : `batch-${batchId}-${request.custom_id}`;
+    try {
+      const res = await fastify.inject({
+        method: "POST",
+        url: "/v1/messages",
+        headers: { "content-type": "application/json" },
+        payload: {
+          ...request.params,
+          stream: false,
+          conversation_id: request.params.conversation_id || itemSession
+        }
+      });
+      return { statusCode: res.statusCode, body: JSON.parse(res.payload) };
+    } finally {
+      if (itemSession) await sessions.discardSession(itemSession);
+    }
+  }, {
+    concurrency: Number(process.env.BATCH_CONCURRENCY || 4),
+    pollInterval: Number(process.env.BATCH_POLL_INTERVAL || 1) * 1000,
+    leaseTtl: Number(process.env.BATCH_LEASE_SECONDS || 60) * 1000
+  });
+
+  if (process.env.BATCH_WORKER !== 'false') {
+    fastify.addHook('onReady', async () => batchProcessor.start());
+    fastify.addHook('onClose', async () => batchProcessor.stop());
+  }
+
+  // Anything a handler throws is answered with an Anthropic error envelope
+  fastify.setErrorHandler((error, _req, reply) => {
+    console.error('❌ Unhandled route error:', error);
+    debugLog('ROUTE_ERROR', { error: error.message, status: (error as any).response?.status });
+    return sendError(reply, error);
+  });
+
+  // Route a handler to the Toqan backend of the requested model; unknown models are rejected.
+  // The model comes from the JSON body, else ?model= or the x-model header (multipart uploads).
+  function withModel(
+    handler: (req: FastifyRequest, reply: FastifyReply) => Promise<any>,
+    errorFormat: ErrorFormat = 'anthropic'
+  ) {
+    return async (req: FastifyRequest, reply: FastifyReply) => {
+      let model;
+      try {
+        const header = req.headers['x-model'];
+        model = models.resolve((req.body as any)?.model ?? (req.query as any)?.model ?? (typeof header === 'string' ? header : undefined));
+      } catch (error: any) {
+        return sendError(reply, error, errorFormat);
+      }
+      return runWithModel(model, () => handler(req, reply));
+    };
+  }
+
+  // Model name echoed back to the client
+  function responseModel(body: { model?: string }): string {
+    return body.model || currentModel()?.id || DEFAULT_MODEL;
+  }
+
+  // Seconds to poll get_answer: the model's poll timeout, else POLL_TIMEOUT
+  function pollTimeoutSeconds(): number {
+    return currentModel()?.pollTimeout ?? Number(process.env.POLL_TIMEOUT || 30);
+  }
+
+  // Tokens a Toqan conversation may accumulate before it is rotated; 0 disables rotation
+  function conversationTokenBudget(): number {
+    return Number(process.env.CONVERSATION_TOKEN_BUDGET ?? 300000);
+  }
+
+  // Smart handler defaults of the model being served; explicit options win
+  function modelSmartOptions(): Partial<SmartRequestOptions> {
+    const model = currentModel();
+    if (!model) return {};
+    return { ...(model.strategy ? { strategy: model.strategy } : {}), pollTimeout: model.pollTimeout * 1000 };
+  }
 
   // Smart request handling helper
   async function handleWithSmartRequest(
     user_message: string, 
     sessionId: string,
-    options: Partial<SmartRequestOptions> = {}
-  ): Promise<{ answer: string; conversationId: string; requestId: string; strategy: string }> {
+    options: Partial<SmartRequestOptions> = {},
+    systemPrompt: string = '',
+    files?: { id: string }[],
+    toolsHash?: string
+  ): Promise<{ answer: string; conversationId: string; requestId: string; strategy: string; usage?: TokenUsage }> {
     const tokens = smartEstimateTokens(user_message);
     debugLog('SMART_REQUEST_START', { tokens, sessionId, messageLength: user_message.length });
 
     // Check if we should use smart handling
-    if (exceedsTokenLimit(user_message, 115000)) {
+    if (exceedsTokenLimit(user_message, DIRECT_TOKEN_LIMIT)) {
       console.log(`🧠 Using smart request handling for ${tokens} tokens`);
       
-      const result = await smartHandler.handleLargeRequest(user_message, {
+      const result = await smartHandler.handleLargeRequest(applySystemPrompt(systemPrompt, user_message), {
+        ...modelSmartOptions(),
         ...options,
-        sessionId
+        sessionId,
+        files
       });
       
       debugLog('SMART_REQUEST_COMPLETE', { 
@@ -58,50 +203,169 @@ export default async function routes(fastify: FastifyInstance) {
         fileId: result.fileId
       });
 
+      // Smart handling always opens a fresh conversation carrying the system prompt
+      await sessions.mapConversation(sessionId, result.conversationId);
+      await sessions.updateMeta(result.conversationId, sessionId, {
+        system_hash: systemPrompt ? hashContent(systemPrompt) : undefined,
+        ...(toolsHash ? { tools_hash: toolsHash } : {})
+      });
+
       return {
         answer: result.answer,
         conversationId: result.conversationId,
         requestId: result.requestId,
-        strategy: result.strategy
+        strategy: result.strategy,
+        usage: { input_tokens: result.totalInputTokens, output_tokens: result.totalResponseTokens }
       };
     } else {
       console.log(`📤 Using direct request for ${tokens} tokens`);
       // Use existing logic for smaller requests
-      let toqanConv = await redis.hget(MAP_KEY, sessionId);
-      let request_id: string | undefined = undefined;
-
-      if (!toqanConv) {
-        const lockKey = LOCK_PREFIX + sessionId;
-        const locked = await acquireLock(lockKey);
-        try {
-          toqanConv = await redis.hget(MAP_KEY, sessionId);
-          if (!toqanConv) {
-            const createResp = await createConversation(user_message);
-            toqanConv = createResp.conversation_id;
-            request_id = createResp.request_id;
-            if (!toqanConv) throw new Error("toqan no conversation_id");
-            await redis.hset(MAP_KEY, sessionId, toqanConv);
-            await redis.set(META_PREFIX + toqanConv, JSON.stringify({ created_at: new Date().toISOString(), sessionId }));
-          }
-        } finally {
-          if (locked) await releaseLock(lockKey);
-        }
-      } else {
-        const cont = await continueConversation(toqanConv, user_message);
-        request_id = cont.request_id;
-      }
-
-      const final = await pollAnswer(toqanConv, request_id);
+      const sent = await sendToConversation(sessionId, user_message, { systemPrompt, files, toolsHash });
+      const final = await pollAnswer(sent.conversationId, sent.requestId);
       
       return {
         answer: final.answer || "",
-        conversationId: toqanConv,
-        requestId: request_id!,
+        conversationId: sent.conversationId,
+        requestId: sent.requestId,
         strategy: 'direct'
       };
     }
   }
 
+  // Create the session's Toqan conversation or continue it. The system prompt goes out
+  // with the first message and is re-sent only when it differs from the stored hash.
+  // Callers hold the session's lease, so no other turn creates or continues it meanwhile.
+  async function sendToConversation(
+    sessionId: string,
+    userMessage: string,
+    options: { files?: { id: string }[]; systemPrompt?: string; toolsHash?: string } = {}
+  ): Promise<{ conversationId: string; requestId: string; created: boolean }> {
+    const systemPrompt = options.systemPrompt || '';
+    const systemHash = systemPrompt ? hashContent(systemPrompt) : undefined;
+    const turnFiles = uniqueFiles(options.files);
+    let toqanConv = await sessions.getConversationId(sessionId);
+
+    if (!toqanConv) {
+      console.log(`🚀 Creating new Toqan conversation with ${turnFiles?.length || 0} files`);
+      const createResp = await createConversation(applySystemPrompt(systemPrompt, userMessage), turnFiles);
+      if (!createResp.conversation_id) throw new Error("toqan no conversation_id");
+      await sessions.mapConversation(sessionId, createResp.conversation_id);
+      await sessions.addAttachedFiles(createResp.conversation_id, (turnFiles || []).map(file => file.id));
+      await sessions.updateMeta(createResp.conversation_id, sessionId, {
+        system_hash: systemHash,
+        ...(options.toolsHash ? { tools_hash: options.toolsHash } : {})
+      });
+      return { conversationId: createResp.conversation_id, requestId: createResp.request_id, created: true };
+    }
+
+    const meta = await sessions.getMeta(toqanConv);
+    const systemChanged = !!systemHash && systemHash !== meta?.system_hash;
+    if (systemChanged) {
+      console.log(`📜 System prompt changed - re-sending it to ${toqanConv}`);
+      debugLog('SYSTEM_PROMPT_CHANGED', { sessionId, conversationId: toqanConv, previousHash: meta?.system_hash, systemHash });
+    }
+
+    console.log(`🔄 Continuing Toqan conversation: ${toqanConv}`);
+    const message = systemChanged ? applySystemPrompt(systemPrompt, userMessage, true) : userMessage;
+    // Files Toqan already has in this conversation are not attached again
+    const attached = new Set(await sessions.getAttachedFiles(toqanConv));
+    const newFiles = turnFiles?.filter(file => !attached.has(file.id));
+    if (turnFiles && newFiles!.length < turnFiles.length) {
+      debugLog('FILES_ALREADY_ATTACHED', { conversationId: toqanConv, skipped: turnFiles.length - newFiles!.length });
+    }
+
+    // Only attachments of this and later turns are returned to the client
+    await attachments.prime(toqanConv);
+    const cont = await continueConversation(toqanConv, message, newFiles);
+    await sessions.addAttachedFiles(toqanConv, (newFiles || []).map(file => file.id));
+    const catalogChanged = !!options.toolsHash && options.toolsHash !== meta?.tools_hash;
+    if (systemChanged || catalogChanged) {
+      await sessions.updateMeta(toqanConv, sessionId, {
+        ...(systemChanged ? { system_hash: systemHash } : {}),
+        ...(catalogChanged ? { tools_hash: options.toolsHash } : {})
+      });
+    }
+
+    return { conversationId: toqanConv, requestId: cont.request_id, created: false };
+  }
+
+  // The same file referenced twice in a turn is attached once
+  function uniqueFiles(files?: { id: string }[]): { id: string }[] | undefined {
+    if (!files) return undefined;
+    const ids = [...new Set(files.map(file => file.id))];
+    return ids.map(id => ({ id }));
+  }
+
+  // Upload bytes to Toqan unless an identical payload already was: its sha256 maps to the cached file id
+  async function cachedUpload(bytes: Buffer, upload: () => Promise<string | undefined>): Promise<string | undefined> {
+    const sha256 = contentHash(bytes);
+    const cached = await files.getCachedUpload(sha256);
+    if (cached) {
+      debugLog('UPLOAD_CACHE_HIT', { sha256, fileId: cached });
+      return cached;
+    }
+
+    const fileId = await upload();
+    if (fileId) await files.cacheUpload(sha256, fileId);
+    return fileId;
+  }
+
+  // Bytes of a registered file: stored in Redis, or downloaded again from the Toqan conversation that produced it
+  async function fileContent(file: FileRecord): Promise<Buffer | null> {
+    const stored = await files.getContent(file.id);
+    if (stored || !file.origin) return stored;
+
+    const origin = file.origin;
+    const { data } = await runWithModel(models.resolve(origin.model), () => downloadFile(origin.conversation_id, origin.file_name));
+    return data;
+  }
+
+  // Toqan file id of a registered file on the current model's backend. Files Toqan generated,
+  // and files uploaded for another model, are uploaded (once per model) on first use.
+  async function toqanFileId(file: FileRecord): Promise<string> {
+    const model = currentModel()?.id;
+    const sameBackend = (file.model ?? models.resolve().id) === model;
+    if (file.toqan_file_id && sameBackend) return file.toqan_file_id;
+
+    const content = await fileContent(file);
+    if (!content) {
+      throw invalidRequest(sameBackend
+        ? `File ${file.id} has no content to attach`
+        : `File ${file.id} was uploaded for model ${file.model} and has no stored content to attach for ${model}`);
+    }
+    return (await cachedUpload(content, () => fileUploads.uploadBuffer(content, file.filename, file.mime_type)))!;
+  }
+
+  // Toqan file ids for ids sent by a client. Ids the registry doesn't know are
+  // passed through, for clients still using Toqan ids directly.
+  async function resolveFileIds(fileIds: string[]): Promise<string[]> {
+    return Promise.all(fileIds.map(async id => {
+      const file = await files.getFile(id);
+      return file ? toqanFileId(file) : id;
+    }));
+  }
+
+  // Flatten the Anthropic `system` field (string or array of text blocks) into plain text
+  function extractSystemPrompt(system?: string | any[]): string {
+    if (!system) return '';
+    if (typeof system === 'string') return system.trim();
+    if (!Array.isArray(system)) return '';
+
+    return system
+      .map(block => typeof block === 'string' ? block : block?.text || '')
+      .filter(Boolean)
+      .join('\n\n')
+      .trim();
+  }
+
+  // Prefix a message with the system prompt so Toqan treats it as standing instructions
+  function applySystemPrompt(systemPrompt: string, message: string, updated = false): string {
+    if (!systemPrompt) return message;
+
+    const header = updated ? 'Updated System Instructions' : 'System Instructions';
+    return `${header} (follow these for the rest of the conversation):\n${systemPrompt}\n\n---\n\n${message}`;
+  }
+
   // Authentication middleware
   function validateApiKey(request: any, reply: any, next: any) {
     const headers = request.headers;
@@ -118,14 +382,6 @@ export default async function routes(fastify: FastifyInstance) {
     next();
   }
 
-  async function acquireLock(key: string, ttl = 10) {
-    const ok = await redis.set(key, "1", "EX", ttl, "NX");
-    return ok === "OK";
-  }
-  async function releaseLock(key: string) {
-    await redis.del(key);
-  }
-
   // Filter thinking tags and internal reasoning from AI responses
   function cleanAiResponse(text: string): string {
     if (!text) return text;
@@ -142,65 +398,166 @@ export default async function routes(fastify: FastifyInstance) {
     return cleaned;
   }
 
-  // Tool execution framework - detects USE_TOOL patterns and converts to Anthropic tool_use blocks
-  function parseToolsFromResponse(response: string): { textContent: string; toolUses: any[] } {
+  // Tool execution framework - detects tool calls (USE_TOOL, fenced tool_call, <tool_use>) and converts them to Anthropic tool_use blocks
+  function parseToolsFromResponse(response: string, tools?: Tool[]): { textContent: string; toolUses: any[] } {
     if (!response) {
       return { textContent: "", toolUses: [] };
     }
 
-    const toolPattern = /USE_TOOL\(([^,]+),\s*(\{[^}]+\})\)/g;
-    const toolUses: any[] = [];
-    let match;
-    
     console.log('🔍 Scanning response for tool usage patterns...');
-    
-    while ((match = toolPattern.exec(response)) !== null) {
-      const [fullMatch, toolName, jsonParams] = match;
-      
-      try {
-        const params = JSON.parse(jsonParams);
-        const toolUseId = `toolu_${Math.random().toString(36).slice(2, 15)}`;
-        
-        const toolUse = {
-          type: "tool_use",
-          id: toolUseId,
-          name: toolName.trim(),
-          input: params
-        };
-        
-        toolUses.push(toolUse);
-        console.log(`🔧 Detected tool use: ${toolName.trim()} with params:`, params);
-        
-      } catch (error) {
-        console.warn(`⚠️ Failed to parse tool parameters for ${toolName}:`, jsonParams, error);
+    const { textContent, calls } = extractToolCalls(response);
+    const toolUses: any[] = [];
+
+    for (const call of calls) {
+      if (!call.input) {
+        console.warn(`⚠️ Failed to parse tool parameters for ${call.name}:`, call.raw, call.parseError);
+        continue;
       }
+
+      toolUses.push({
+        type: "tool_use",
+        id: `toolu_${Math.random().toString(36).slice(2, 15)}`,
+        name: call.name,
+        input: call.input
+      });
+      console.log(`🔧 Detected tool use: ${call.name} with params:`, call.input);
     }
 
-    // Remove USE_TOOL patterns from text content and clean up
-    const textContent = response
-      .replace(toolPattern, '')
-      .replace(/\n\s*\n/g, '\n')
-      .trim();
+    for (const problem of findToolCallProblems(calls.filter(call => call.input), tools)) {
+      console.warn(`⚠️ Tool call ${problem.call.name} does not match its schema: ${problem.errors.join('; ')}`);
+    }
 
     console.log(`📄 Tool parsing complete: ${toolUses.length} tools detected, ${textContent.length} chars remaining`);
     
     return { textContent, toolUses };
   }
 
-  // Convert response to Anthropic format with tool support
-  function formatAnthropicResponse(toqanResponse: string, model: string): any {
-    const cleaned = cleanAiResponse(toqanResponse);
-    const { textContent, toolUses } = parseToolsFromResponse(cleaned);
-    
-    const content: any[] = [];
-    
-    // Add text content if present
-    if (textContent) {
-      content.push({
-        type: "text",
-        text: textContent
-      });
+  // Give Toqan one chance to fix tool calls that fail to parse or don't match the declared
+  // schemas. Returns the answer with its tool calls replaced by the corrected ones.
+  async function repairToolCalls(convId: string, answer: string, tools?: Tool[]): Promise<string> {
+    if (!tools || tools.length === 0) return answer;
+
+    const { textContent, calls } = extractToolCalls(cleanAiResponse(answer));
+    const problems = findToolCallProblems(calls, tools);
+    if (problems.length === 0) return answer;
+
+    console.log(`🛠️ ${problems.length} invalid tool call(s) - asking Toqan to repair them`);
+    debugLog('TOOL_CALL_REPAIR', {
+      convId,
+      problems: problems.map(({ call, errors }) => ({ name: call.name, errors }))
+    });
+
+    try {
+      const repair = await continueConversation(convId, buildRepairPrompt(problems, tools));
+      const final = await pollAnswer(convId, repair.request_id);
+      const repaired = extractToolCalls(cleanAiResponse(final.answer || "")).calls.filter(call => call.input);
+
+      if (repaired.length === 0) {
+        console.warn('⚠️ Repair answer had no usable tool calls - keeping the original ones');
+        return answer;
+      }
+
+      const remaining = findToolCallProblems(repaired, tools);
+      debugLog('TOOL_CALL_REPAIR_RESULT', { convId, toolCalls: repaired.length, stillInvalid: remaining.length });
+      return [textContent, ...repaired.map(call => call.raw)].filter(Boolean).join('\n');
+    } catch (error: any) {
+      console.warn('⚠️ Tool call repair failed - keeping the original answer:', error.message);
+      return answer;
+    }
+  }
+
+  // Apply tool_choice to an answer: re-prompt once when a required tool call is missing
+  // (any / tool), and drop tool calls when tool use is disabled (none)
+  async function enforceToolChoice(convId: string, answer: string, tools: Tool[] | undefined, choice: ToolChoice): Promise<string> {
+    const { textContent, calls } = extractToolCalls(cleanAiResponse(answer));
+
+    if (choice.type === 'none') {
+      if (calls.length > 0) console.warn(`⚠️ Dropping ${calls.length} tool call(s) - tool_choice is none`);
+      return calls.length > 0 ? textContent : answer;
+    }
+    if (satisfiesToolChoice(calls, choice)) return answer;
+
+    const required = choice.type === 'tool'
+      ? `You must call the tool ${choice.name} now.`
+      : `You must call at least one of the available tools (${(tools || []).map(t => t.name).join(', ')}) now.`;
+    console.log(`🔁 Answer has no qualifying tool call for tool_choice ${choice.type} - re-prompting Toqan`);
+    debugLog('TOOL_CHOICE_REPROMPT', { convId, choice });
+
+    try {
+      const retry = await continueConversation(
+        convId,
+        `${required} Reply only with the tool call, using: USE_TOOL(tool_name, {"param": "value"})`
+      );
+      const final = await pollAnswer(convId, retry.request_id);
+      const forced = extractToolCalls(cleanAiResponse(final.answer || "")).calls.filter(call => call.input);
+
+      if (!satisfiesToolChoice(forced, choice)) {
+        console.warn(`⚠️ Toqan still did not call a qualifying tool - returning the original answer`);
+        return answer;
+      }
+      return [textContent, ...forced.map(call => call.raw)].filter(Boolean).join('\n');
+    } catch (error: any) {
+      console.warn('⚠️ tool_choice re-prompt failed - keeping the original answer:', error.message);
+      return answer;
+    }
+  }
+
+  // Post-process an answer before it goes back to the client: repair invalid tool calls, then apply tool_choice
+  async function resolveToolAnswer(convId: string, answer: string, body: AnthropicRequest): Promise<string> {
+    const choice = normalizeToolChoice(body.tool_choice, body.tools);
+    const repaired = choice.type === 'none' ? answer : await repairToolCalls(convId, answer, body.tools);
+    const resolved = body.tools?.length ? await enforceToolChoice(convId, repaired, body.tools, choice) : repaired;
+    if (resolved === answer) return answer;
+
+    // Rewritten answers only carry text and tool calls; keep the original reasoning
+    const reasoning = extractThinking(answer).map(section => `<thinking>${section}</thinking>`).join('\n');
+    return reasoning ? `${reasoning}\n${resolved}` : resolved;
+  }
+
+  // Thinking blocks and the text between them, in answer order: each thinking block goes after
+  // the text that preceded it. Text parts are trimmed ranges of textContent, so callers can tell
+  // which part was already streamed; text that no longer lines up with the answer goes first.
+  function orderAnswerParts(answer: string, textContent: string): (ThinkingBlock | { type: 'text'; start: number; end: number })[] {
+    const parts: (ThinkingBlock | { type: 'text'; start: number; end: number })[] = [];
+    const pushText = (start: number, end: number) => {
+      while (start < end && /\s/.test(textContent[start])) start++;
+      while (end > start && /\s/.test(textContent[end - 1])) end--;
+      if (end > start) parts.push({ type: 'text', start, end });
+    };
+
+    let offset = 0;
+    for (const { block, precedingText } of placedThinkingBlocks(answer)) {
+      const before = cleanAiResponse(precedingText);
+      const at = Math.max(offset, textContent.startsWith(before) ? before.length : textContent.length);
+      pushText(offset, at);
+      parts.push(block);
+      offset = at;
     }
+    pushText(offset, textContent.length);
+    return parts;
+  }
+
+  // Content blocks for the ordered parts of an answer
+  function answerBlocks(parts: ReturnType<typeof orderAnswerParts>, textContent: string): any[] {
+    return parts.map(part => part.type === 'text' ? { type: 'text', text: textContent.slice(part.start, part.end) } : part);
+  }
+
+  // Convert response to Anthropic format with tool support, applying stop_sequences and max_tokens
+  function formatAnthropicResponse(
+    toqanResponse: string,
+    model: string,
+    request: Pick<AnthropicRequest, 'system' | 'messages' | 'tools' | 'stop_sequences' | 'max_tokens' | 'thinking'> = { messages: [] },
+    usage?: TokenUsage
+  ): any {
+    const limited = applyResponseLimits(cleanAiResponse(toqanResponse), request);
+    const { textContent, toolUses } = parseToolsFromResponse(limited.text, request.tools);
+    
+    // Reasoning goes where it came in the answer, as thinking blocks, when the client asked for it
+    const parts = thinkingEnabled(request) ? orderAnswerParts(toqanResponse, textContent) : [];
+    const reasoning = parts.filter((part): part is ThinkingBlock => part.type === 'thinking');
+    const content: any[] = parts.length > 0
+      ? answerBlocks(parts, textContent)
+      : textContent ? [{ type: "text", text: textContent }] : [];
     
     // Add tool uses
     content.push(...toolUses);
@@ -211,11 +568,11 @@ export default async function routes(fastify: FastifyInstance) {
       role: "assistant",
       content: content.length > 0 ? content : [{ type: "text", text: "" }],
       model: model,
-      stop_reason: "end_turn",
-      stop_sequence: null,
-      usage: {
-        input_tokens: 0,
-        output_tokens: 0
+      stop_reason: limited.stopReason || (toolUses.length > 0 ? "tool_use" : "end_turn"),
+      stop_sequence: limited.stopSequence,
+      usage: usage || {
+        input_tokens: estimateInputTokens(request),
+        output_tokens: smartEstimateTokens(limited.text) + reasoning.reduce((total, block) => total + smartEstimateTokens(block.thinking), 0)
       }
     };
 
@@ -226,31 +583,539 @@ export default async function routes(fastify: FastifyInstance) {
     return response;
   }
 
+  // Substitute a readable message when Toqan returns an empty answer
+  function fallbackForEmptyAnswer(answer: string, userMessage: string, toqanStatus?: string): string {
+    if (answer.trim()) return answer;
+
+    if (userMessage.length > 5000) {
+      console.log(`⚠️ Empty response for large request (${userMessage.length} chars) - providing fallback message`);
+      debugLog('EMPTY_RESPONSE_FALLBACK', {
+        messageLength: userMessage.length,
+        toqanStatus,
+        toqanAnswerLength: answer.length
+      });
+      return "I received a large request but wasn't able to process it fully. This might be due to API limits. Please try breaking your request into smaller parts or asking a more specific question.";
+    }
+
+    console.log(`⚠️ Empty response - providing generic fallback message`);
+    debugLog('EMPTY_RESPONSE_GENERIC', {
+      messageLength: userMessage.length,
+      toqanStatus,
+      toqanAnswerLength: answer.length
+    });
+    return "I'm having trouble processing your request right now. Please try again or rephrase your question.";
+  }
+
+  // Text of a partial answer that is safe to stream: thinking blocks are stripped and
+  // anything from a tool call or an unclosed <think> onwards is held back until the end
+  function streamableText(partialAnswer: string, limits: ResponseLimits = {}): string {
+    let text = partialAnswer.replace(/<think>[\s\S]*?<\/think>/gi, '').replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
+
+    for (const marker of STREAM_HOLD_MARKERS) {
+      const idx = text.toLowerCase().indexOf(marker.toLowerCase());
+      if (idx !== -1) text = text.slice(0, idx);
+    }
+
+    // Hold back a trailing fragment that may still grow into a marker
+    for (const marker of STREAM_HOLD_MARKERS) {
+      for (let len = Math.min(marker.length - 1, text.length); len > 0; len--) {
+        if (text.slice(-len).toLowerCase() === marker.slice(0, len).toLowerCase()) {
+          text = text.slice(0, -len);
+          break;
+        }
+      }
+    }
+
+    // Same limits and normalization the final answer gets, so streamed text stays a prefix of it
+    const limited = applyResponseLimits(cleanAiResponse(text), limits, true).text;
+    return limited.replace(/\n\s*\n/g, '\n').trim();
+  }
+
+  // Stream a Toqan answer to the writer (Anthropic or OpenAI SSE), polling get_answer incrementally.
+  // Resolves with the content blocks that were sent, or null if the stream failed.
+  async function streamAnthropicAnswer(
+    writer: MessageStreamWriter,
+    convId: string,
+    requestId: string | undefined,
+    userMessage: string,
+    body: AnthropicRequest,
+    owner: string
+  ): Promise<any[] | null> {
+    const pollInterval = Number(process.env.POLL_INTERVAL || 0.5) * 1000;
+    const timeout = pollTimeoutSeconds() * 1000;
+    const pingInterval = Number(process.env.STREAM_PING_INTERVAL || 10) * 1000;
+    const deadline = Date.now() + timeout;
+    let lastPing = Date.now();
+    let answer = "";
+    let status = "";
+    let sent = "";
+    let sentThinking = "";
+    let replyAttachments: ContentBlock[] = [];
+
+    writer.start();
+    writer.ping();
+
+    try {
+      while (Date.now() < deadline) {
+        const r = await getAnswer(convId, requestId);
+        status = (r.status || "").toString().toLowerCase();
+        if (r.answer) answer = r.answer;
+        if (["finished", "done", "completed"].includes(status) && answer) break;
+
+        const thinking = thinkingEnabled(body) ? leadingThinking(answer) : null;
+        if (thinking && thinking.text.length > sentThinking.length && thinking.text.startsWith(sentThinking)) {
+          writer.thinkingDelta(thinking.text.slice(sentThinking.length));
+          sentThinking = thinking.text;
+        }
+
+        // Text past a later thinking section waits until that section's block is sent
+        const visible = streamableText(thinkingEnabled(body) ? beforeLaterThinking(answer) : answer, body);
+        if (visible.length > sent.length && visible.startsWith(sent)) {
+          writer.textDelta(visible.slice(sent.length));
+          sent = visible;
+        }
+
+        if (Date.now() - lastPing >= pingInterval) {
+          writer.ping();
+          lastPing = Date.now();
+        }
+        await new Promise((res) => setTimeout(res, pollInterval));
+      }
+
+      if (answer) {
+        const pinger = setInterval(() => writer.ping(), pingInterval);
+        try {
+          answer = await resolveToolAnswer(convId, answer, body);
+          if (["finished", "done", "completed"].includes(status)) {
+            replyAttachments = await attachments.collect(convId, owner);
+          }
+        } finally {
+          clearInterval(pinger);
+        }
+      }
+
+      return finishAnthropicStream(writer, answer, status, sent, userMessage, body, undefined, sentThinking, replyAttachments);
+    } catch (error: any) {
+      failAnthropicStream(writer, error);
+      return null;
+    } finally {
+      writer.end();
+    }
+  }
+
+  // Stream an answer produced by a non-incremental flow (smart handling), pinging while it runs
+  async function streamCompletedAnthropicAnswer(
+    writer: MessageStreamWriter,
+    userMessage: string,
+    produceAnswer: () => Promise<{ answer: string; usage?: TokenUsage; attachments?: ContentBlock[] }>,
+    body: AnthropicRequest
+  ): Promise<any[] | null> {
+    const pingInterval = Number(process.env.STREAM_PING_INTERVAL || 10) * 1000;
+
+    writer.start();
+    writer.ping();
+    const pinger = setInterval(() => writer.ping(), pingInterval);
+
+    try {
+      const { answer, usage, attachments: replyAttachments } = await produceAnswer();
+      clearInterval(pinger);
+      return finishAnthropicStream(writer, answer, "finished", "", userMessage, body, usage, "", replyAttachments);
+    } catch (error: any) {
+      failAnthropicStream(writer, error);
+      return null;
+    } finally {
+      clearInterval(pinger);
+      writer.end();
+    }
+  }
+
+  // Flush the text held back while polling, then the tool calls and attachments, then close the message
+  function finishAnthropicStream(
+    writer: MessageStreamWriter,
+    answer: string,
+    status: string,
+    sent: string,
+    userMessage: string,
+    body: AnthropicRequest,
+    usage?: TokenUsage,
+    sentThinking = "",
+    replyAttachments: ContentBlock[] = []
+  ): any[] {
+    const finalAnswer = fallbackForEmptyAnswer(answer, userMessage, status);
+    const limited = applyResponseLimits(cleanAiResponse(finalAnswer), body);
+    const { textContent, toolUses } = parseToolsFromResponse(limited.text, body.tools);
+
+    // Finish the reasoning and text streamed so far, then the rest of both in answer order
+    const parts = thinkingEnabled(body)
+      ? orderAnswerParts(finalAnswer, textContent)
+      : textContent ? [{ type: 'text' as const, start: 0, end: textContent.length }] : [];
+    const reasoning = parts.filter((part): part is ThinkingBlock => part.type === 'thinking');
+    const streamText = textContent.startsWith(sent);
+    parts.forEach((part, i) => {
+      if (part.type === 'text') {
+        if (streamText && part.end > sent.length) writer.textDelta(textContent.slice(Math.max(part.start, sent.length), part.end));
+      } else if (i === 0 && sentThinking && part.thinking.startsWith(sentThinking)) {
+        writer.thinkingDelta(part.thinking.slice(sentThinking.length));
+      } else {
+        writer.stopBlock();
+        writer.thinkingDelta(part.thinking);
+      }
+    });
+
+    for (const toolUse of toolUses) {
+      writer.toolUse(toolUse);
+    }
+    for (const block of replyAttachments) {
+      writer.contentBlock(block);
+    }
+
+    const finished = ["finished", "done", "completed"].includes(status);
+    const stopReason = limited.stopReason || (toolUses.length > 0 ? "tool_use" : finished ? "end_turn" : null);
+    writer.finish(
+      stopReason,
+      limited.stopSequence,
+      usage
+        ? usage.output_tokens
+        : smartEstimateTokens(limited.text) + reasoning.reduce((total, block) => total + smartEstimateTokens(block.thinking), 0),
+      usage?.input_tokens
+    );
+
+    console.log(`✅ Streamed response to Claude Code (${textContent.length} chars, ${toolUses.length} tool uses)`);
+    debugLog('CLAUDE_STREAM_SENT', { responseLength: textContent.length, toolUseCount: toolUses.length, toqanStatus: status });
+
+    return [...answerBlocks(parts, textContent), ...toolUses, ...replyAttachments];
+  }
+
+  function failAnthropicStream(writer: MessageStreamWriter, error: any): void {
+    console.error('❌ Streaming Toqan answer failed:', error);
+    debugLog('CLAUDE_STREAM_ERROR', { error: error.message, status: error.response?.status });
+    const bridgeError = classifyError(error);
+    writer.error(bridgeError.type, bridgeError.message);
+  }
+
+  // Map tool_use ids to tool names so tool results can say which tool produced them
+  function collectToolNames(messages: AnthropicMessage[]): Map<string, string> {
+    const names = new Map<string, string>();
+    for (const message of messages) {
+      if (!Array.isArray(message.content)) continue;
+      for (const block of message.content) {
+        if (block.type === 'tool_use' && block.id && block.name) names.set(block.id, block.name);
+      }
+    }
+    return names;
+  }
+
+  // Readable section for a tool_result block
+  function formatToolResult(toolName: string, toolUseId: string | undefined, output: string, isError?: boolean): string {
+    const header = `[Result of tool ${toolName} (id ${toolUseId || 'unknown'})${isError ? ' - reported an error' : ''}]`;
+    return `${header}\n${output.trim() || '(no output)'}\n[End of result]`;
+  }
+
+  // Plain-text rendering of a message's content, used when replaying history to Toqan
+  function renderMessageText(message: AnthropicMessage, toolNames: Map<string, string>): string {
+    if (typeof message.content === 'string') return message.content;
+    if (!Array.isArray(message.content)) return String(message.content ?? '');
+
+    return message.content
+      .map(block => {
+        switch (block.type) {
+          case 'text':
+            return block.text || '';
+          case 'tool_use':
+            return `USE_TOOL(${block.name}, ${JSON.stringify(block.input || {})})`;
+          case 'tool_result': {
+            const output = typeof block.content === 'string'
+              ? block.content
+              : renderMessageText({ role: 'user', content: block.content || [] }, toolNames);
+            return formatToolResult(toolNames.get(block.tool_use_id || '') || 'unknown', block.tool_use_id, output, block.is_error);
+          }
+          case 'image':
+          case 'document':
+            return `[${block.type} attachment]`;
+          default:
+            return block.text || '';
+        }
+      })
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  // Pack earlier turns into a transcript that seeds a brand-new Toqan conversation
+  function packHistory(messages: AnthropicMessage[], toolNames: Map<string, string>): string {
+    const turns = messages
+      .filter(m => m.role === 'user' || m.role === 'assistant')
+      .map(m => ({ role: m.role === 'assistant' ? 'Assistant' : 'User', text: renderMessageText(m, toolNames).trim() }))
+      .filter(turn => turn.text)
+      .map(turn => `${turn.role}: ${turn.text}`);
+
+    if (turns.length === 0) return '';
+    return `[Previous conversation history]\n${turns.join('\n\n')}\n[End of previous conversation history]\n\n`;
+  }
+
+  // Decide which messages this turn must deliver to Toqan, given what the session already sent:
+  // - no conversation yet (new client, bridge restart, Redis flush): replay the earlier turns
+  // - history extends what Toqan has: send every message added since the last sync
+  // - history diverged (rewind, edit, retry): fork a fresh conversation seeded with the
+  //   shared prefix, so Toqan never keeps turns the client has thrown away
+  async function syncHistory(
+    sessionId: string,
+    messages: AnthropicMessage[]
+  ): Promise<{ history: string; pending: AnthropicMessage[]; replayed: boolean; forked: boolean }> {
+    // The current turn is everything after the last assistant message
+    let trailingStart = 0;
+    messages.forEach((m, i) => { if (m.role === 'assistant') trailingStart = i + 1; });
+    const toolNames = collectToolNames(messages);
+
+    let syncPoint = trailingStart;
+    let forked = false;
+    const conversationId = await sessions.getConversationId(sessionId);
+
+    if (conversationId) {
+      // Even a lone first message is compared: an edited or retried opening turn diverges at 0
+      const sentHashes = await sessions.getMessageHashes(sessionId);
+      const divergedAt = findDivergence(messages, trailingStart, sentHashes);
+
+      if (divergedAt === -1) {
+        const pending = sentHashes.length > 0 ? messages.slice(sentHashes.length) : messages.slice(trailingStart);
+        if (pending.length > 1) {
+          console.log(`📬 Forwarding ${pending.length} messages added since the last sync`);
+        }
+        return { history: '', pending, replayed: false, forked: false };
+      }
+
+      console.log(`🍴 Client history diverged at message ${divergedAt} - forking away from ${conversationId}`);
+      debugLog('HISTORY_DIVERGED', { sessionId, conversationId, divergedAt, messageCount: messages.length });
+      await sessions.forkSession(sessionId, conversationId, divergedAt);
+      syncPoint = divergedAt;
+      forked = true;
+    }
+
+    const prior = messages.slice(0, syncPoint);
+    const pending = messages.slice(syncPoint);
+    const history = packHistory(prior, toolNames);
+    if (!history) return { history: '', pending, replayed: false, forked };
+
+    console.log(`📚 Replaying ${prior.length} earlier messages into a new Toqan conversation`);
+    debugLog('HISTORY_REPLAY', { sessionId, priorMessages: prior.length, historyTokens: smartEstimateTokens(history), forked });
+    return { history, pending, replayed: true, forked };
+  }
+
+  // Keep the session's conversation fit for another turn: a conversation past its token
+  // budget is replaced by one seeded with a summary of it. (Idle sessions have already lost
+  // their mapping, and syncHistory replays their history.)
+  async function maintainSession(sessionId: string, systemPrompt: string): Promise<void> {
+    const conversationId = await sessions.getConversationId(sessionId);
+    if (!conversationId) return;
+
+    const budget = conversationTokenBudget();
+    const meta = await sessions.getMeta(conversationId);
+    const used = (meta?.input_tokens || 0) + (meta?.output_tokens || 0);
+    if (budget <= 0 || used < budget) return;
+
+    try {
+      await rotateConversation(sessionId, conversationId, systemPrompt, used);
+    } catch (error: any) {
+      // The old conversation still works; rotation is tried again on the next turn
+      console.warn(`⚠️ Could not rotate ${conversationId}:`, error.message);
+      debugLog('ROTATION_FAILED', { sessionId, conversationId, error: error.message });
+    }
+  }
+
+  // Ask Toqan to summarize the conversation, open a new one seeded with the summary and
+  // the system prompt, and map the session to it. The tool catalog goes out again with the next turn.
+  async function rotateConversation(sessionId: string, conversationId: string, systemPrompt: string, used: number): Promise<void> {
+    console.log(`♻️ ${conversationId} used ${used} tokens - rotating to a summarized conversation`);
+    const summaryRequest = await continueConversation(conversationId, ROTATION_SUMMARY_PROMPT);
+    const summary = cleanAiResponse((await pollAnswer(conversationId, summaryRequest.request_id)).answer || '').trim();
+    if (!summary) throw new Error('Toqan returned no summary');
+
+    const seed = `System: This conversation continues an earlier one. Summary of everything so far:\n\n${summary}\n\nReply only with "OK"; the next message continues the conversation.`;
+    const created = await createConversation(applySystemPrompt(systemPrompt, seed));
+    if (!created.conversation_id) throw new Error("toqan no conversation_id");
+    // Wait for the acknowledgement so the next turn continues an idle conversation
+    const ack = await pollAnswer(created.conversation_id, created.request_id);
+
+    await sessions.updateMeta(created.conversation_id, sessionId, {
+      system_hash: systemPrompt ? hashContent(systemPrompt) : undefined,
+      rotated_from: conversationId,
+      input_tokens: smartEstimateTokens(seed),
+      output_tokens: smartEstimateTokens(ack.answer || '')
+    });
+    await sessions.rotateConversation(sessionId, conversationId, created.conversation_id);
+    debugLog('CONVERSATION_ROTATED', { sessionId, from: conversationId, to: created.conversation_id, used, summaryTokens: smartEstimateTokens(summary) });
+  }
+
+  // Index of the first message Toqan's copy of the history disagrees with, or -1 when the
+  // incoming messages simply extend it. Resending the same turn (retry) also counts as a
+  // divergence, since Toqan already holds an answer the client discarded.
+  function findDivergence(messages: AnthropicMessage[], trailingStart: number, sentHashes: string[]): number {
+    if (sentHashes.length === 0) return -1;
+
+    const comparable = Math.min(messages.length, sentHashes.length);
+    for (let i = 0; i < comparable; i++) {
+      if (hashMessage(messages[i]) !== sentHashes[i]) return i;
+    }
+
+    return messages.length <= sentHashes.length ? trailingStart : -1;
+  }
+
+  // Render the pending messages as one Toqan turn, uploading any images and documents.
+  // A single user message is sent as-is; several messages are labelled by role.
+  async function renderPendingMessages(
+    pending: AnthropicMessage[],
+    toolNames: Map<string, string>
+  ): Promise<{ text: string; fileIds: string[] }> {
+    const fileIds: string[] = [];
+    const parts: { role: string; text: string }[] = [];
+
+    for (const message of pending) {
+      const processed = typeof message.content === 'string'
+        ? { textContent: message.content, fileIds: [] as string[] }
+        : Array.isArray(message.content)
+          ? await processFiles(message.content as ContentBlock[], toolNames)
+          : { textContent: String(message.content ?? ''), fileIds: [] as string[] };
+
+      fileIds.push(...processed.fileIds);
+      if (processed.textContent) parts.push({ role: message.role, text: processed.textContent });
+    }
+
+    if (parts.length === 1 && parts[0].role === 'user') {
+      return { text: parts[0].text, fileIds };
+    }
+
+    const text = parts
+      .map(part => `${part.role === 'assistant' ? 'Assistant' : 'User'}: ${part.text}`)
+      .join('\n\n');
+    return { text, fileIds };
+  }
+
+  // Build the outgoing Toqan message for a client request: history replay (if any),
+  // every unsent message, uploaded attachments and the tool instructions
+  async function prepareTurn(
+    sessionId: string,
+    body: AnthropicRequest
+  ): Promise<{ message: string; fileIds: string[]; replayed: boolean; forked: boolean; toolsHash?: string }> {
+    await maintainSession(sessionId, extractSystemPrompt(body.system));
+    const sync = await syncHistory(sessionId, body.messages);
+    const rendered = await renderPendingMessages(sync.pending, collectToolNames(body.messages));
+
+    let message = rendered.text;
+    if (!message && rendered.fileIds.length > 0) {
+      message = "Please analyze the uploaded file(s).";
+      console.log(`  - Using default message for files without text`);
+      debugLog('USING_DEFAULT_MESSAGE_FOR_FILES', { fileCount: rendered.fileIds.length });
+    }
+
+    // The full catalog goes out once per Toqan conversation; later turns only refer to it
+    const toolChoice = normalizeToolChoice(body.tool_choice, body.tools);
+    const toolsHash = body.tools?.length && toolChoice.type !== "none" ? hashToolCatalog(body.tools) : undefined;
+    const conversationId = toolsHash ? await sessions.getConversationId(sessionId) : null;
+    const catalogSent = !!conversationId && (await sessions.getMeta(conversationId))?.tools_hash === toolsHash;
+
+    if (message) {
+      message = sync.history + processToolsForToqan(body.tools, message, toolChoice, catalogSent);
+    }
+
+    return {
+      message,
+      fileIds: rendered.fileIds,
+      replayed: sync.replayed,
+      forked: sync.forked,
+      toolsHash: catalogSent ? undefined : toolsHash
+    };
+  }
+
+  // Prepare a turn for the smart handler. A turn over DIRECT_TOKEN_LIMIT (any job turn, with
+  // ownConversation) goes to a conversation of its own, so when the session already has one,
+  // that is forked off and the turn rebuilt with the full history replayed ahead of the new messages.
+  async function prepareSmartTurn(
+    sessionId: string,
+    body: AnthropicRequest,
+    options: { ownConversation?: boolean } = {}
+  ): Promise<Awaited<ReturnType<typeof prepareTurn>>> {
+    const turn = await prepareTurn(sessionId, body);
+    if (turn.replayed || !turn.message) return turn;
+    if (!options.ownConversation && !exceedsTokenLimit(turn.message, DIRECT_TOKEN_LIMIT)) return turn;
+
+    const conversationId = await sessions.getConversationId(sessionId);
+    if (!conversationId) return turn;
+
+    const sent = (await sessions.getMessageHashes(sessionId)).length;
+    await sessions.forkSession(sessionId, conversationId, sent, 'oversized');
+    debugLog('OVERSIZED_TURN_FORKED', { sessionId, conversationId, divergedAt: sent });
+    return prepareTurn(sessionId, body);
+  }
+
+  // Remember what Toqan now holds for the session: the client's messages plus our reply
+  // Also counts the turn on the session's conversation: usage as reported by the smart handler,
+  // else estimated from the messages sent this turn and the reply. A fingerprinted chat then
+  // moves to the ID its next turn resolves to.
+  async function recordSync(
+    sessionId: string,
+    body: AnthropicRequest,
+    replyContent: string | any[],
+    turn: { usage?: TokenUsage; strategy?: string } = {}
+  ): Promise<void> {
+    const messages = body.messages;
+    const previous = await sessions.getMessageHashes(sessionId);
+    const hashes = [...messages, { role: 'assistant', content: replyContent }].map(hashMessage);
+    await sessions.setMessageHashes(sessionId, hashes);
+
+    const conversationId = await sessions.getConversationId(sessionId);
+    if (!conversationId) return;
+
+    const usage = turn.usage || {
+      input_tokens: messages.slice(previous.length).reduce((total, message) => total + estimateContentTokens(message.content), 0),
+      output_tokens: estimateContentTokens(replyContent)
+    };
+    await sessions.recordTurn(conversationId, sessionId, { ...usage, strategy: turn.strategy || 'direct' });
+
+    const nextSessionId = followUpSessionId(sessionId, body, replyContent);
+    if (nextSessionId !== sessionId) await sessions.moveSession(sessionId, nextSessionId);
+  }
+
   // Process tools and inject them as context for Toqan AI
-  function processToolsForToqan(tools?: Tool[], userMessage?: string): string {
+  function processToolsForToqan(
+    tools?: Tool[],
+    userMessage?: string,
+    toolChoice: ToolChoice = { type: "auto" },
+    catalogSent = false
+  ): string {
     if (!tools || tools.length === 0) return userMessage || '';
+
+    if (toolChoice.type === "none") {
+      console.log(`🔧 tool_choice is none - not injecting ${tools.length} tools`);
+      return `System: Do not use any tools in this reply. Answer directly in plain text, without USE_TOOL calls.\n\nUser Request: ${userMessage || ''}`;
+    }
+
+    const usage: Record<string, string> = {
+      auto: 'When you need to use a tool, respond with: USE_TOOL(tool_name, {"param": "value"})',
+      any: 'You must use at least one of these tools in this reply. Respond with: USE_TOOL(tool_name, {"param": "value"})',
+      tool: `You must call the tool ${toolChoice.name} in this reply. Respond with: USE_TOOL(${toolChoice.name}, {"param": "value"})`
+    };
+
+    if (catalogSent) {
+      console.log(`🔧 Referring to the ${tools.length} tools already sent to Toqan (tool_choice: ${toolChoice.type})`);
+      return `System: The tools described earlier in this conversation are still available: ${tools.map(t => t.name).join(', ')}. ${usage[toolChoice.type]}
+
+User Request: ${userMessage || ''}`;
+    }
     
-    console.log(`🔧 Injecting ${tools.length} tools into context for Toqan AI`);
-    
-    let toolsContext = `System: You have access to the following tools. When you need to use a tool, respond with: USE_TOOL(tool_name, {"param": "value"})
+    console.log(`🔧 Injecting ${tools.length} tools into context for Toqan AI (tool_choice: ${toolChoice.type})`);
+
+    return `System: You have access to the following tools. ${usage[toolChoice.type]}
+Arguments must be a single JSON object matching the tool's Input type; properties marked with ? are optional.
 
 Available Tools:
-`;
-    
-    tools.forEach(tool => {
-      toolsContext += `- ${tool.name}: ${tool.description}\n`;
-      if (tool.input_schema?.properties) {
-        const params = Object.keys(tool.input_schema.properties).join(', ');
-        toolsContext += `  Parameters: ${params}\n`;
-      }
-    });
-    
-    toolsContext += `\nUser Request: ${userMessage || ''}`;
-    
-    return toolsContext;
+
+${renderToolCatalog(tools)}
+
+User Request: ${userMessage || ''}`;
   }
 
-  async function processFiles(content: ContentBlock[]): Promise<{ fileIds: string[], textContent: string }> {
+
+
+  async function processFiles(content: ContentBlock[], toolNames: Map<string, string> = new Map()): Promise<{ fileIds: string[], textContent: string }> {
     const fileIds: string[] = [];
     let textContent = "";
 
@@ -288,15 +1153,17 @@ Available Tools:
             bufferSize: buffer.length 
           });
           
-          // Fazer upload para Toqan
-          const uploadResult = await uploadFile(buffer, filename, mediaType);
-          const fileId = uploadResult.file_id || uploadResult.id;
+          // Fazer upload para Toqan (ou reutilizar o mesmo conteúdo já enviado)
+          const fileId = await cachedUpload(buffer, async () => {
+            const uploadResult = await uploadFile(buffer, filename, mediaType);
+            return uploadResult.file_id || uploadResult.id;
+          });
           
           if (fileId) {
             fileIds.push(fileId);
             debugLog('IMAGE_UPLOADED', { fileId, filename });
           } else {
-            console.warn('⚠️ Upload retornou resposta sem file_id:', uploadResult);
+            console.warn('⚠️ Upload retornou resposta sem file_id');
           }
         } catch (error: any) {
           console.error('❌ Erro ao fazer upload de imagem:', error);
@@ -319,14 +1186,16 @@ Available Tools:
             bufferSize: buffer.length 
           });
           
-          const uploadResult = await uploadFile(buffer, filename, mediaType);
-          const fileId = uploadResult.file_id || uploadResult.id;
+          const fileId = await cachedUpload(buffer, async () => {
+            const uploadResult = await uploadFile(buffer, filename, mediaType);
+            return uploadResult.file_id || uploadResult.id;
+          });
           
           if (fileId) {
             fileIds.push(fileId);
             debugLog('DOCUMENT_UPLOADED', { fileId, filename });
           } else {
-            console.warn('⚠️ Upload retornou resposta sem file_id:', uploadResult);
+            console.warn('⚠️ Upload retornou resposta sem file_id');
           }
         } catch (error: any) {
           console.error('❌ Erro ao fazer upload de documento:', error);
@@ -335,6 +1204,36 @@ Available Tools:
             mediaType: block.source.media_type 
           });
         }
+      } else if ((block.type === "image" || block.type === "document") && block.source?.type === "file") {
+        // Uploaded earlier through /v1/files: attach the Toqan file it was stored as
+        const file = block.source.file_id ? await files.getFile(block.source.file_id) : null;
+        if (!file) {
+          throw invalidRequest(`${block.type} block references an unknown file: ${block.source.file_id ?? '(missing file_id)'}`);
+        }
+        const toqanId = await toqanFileId(file);
+        fileIds.push(toqanId);
+        debugLog('FILE_REFERENCED', { fileId: file.id, toqanFileId: toqanId, filename: file.filename });
+      } else if (block.type === "tool_result") {
+        // Tool output may itself carry text, images or documents
+        const nested = typeof block.content === 'string'
+          ? { textContent: block.content, fileIds: [] as string[] }
+          : Array.isArray(block.content)
+            ? await processFiles(block.content, toolNames)
+            : { textContent: '', fileIds: [] as string[] };
+        const toolName = toolNames.get(block.tool_use_id || '') || 'unknown';
+
+        fileIds.push(...nested.fileIds);
+        textContent += `\n${formatToolResult(toolName, block.tool_use_id, nested.textContent, block.is_error)}\n`;
+        debugLog('TOOL_RESULT_PROCESSED', {
+          blockIndex,
+          toolName,
+          toolUseId: block.tool_use_id,
+          isError: !!block.is_error,
+          textLength: nested.textContent.length,
+          filesUploaded: nested.fileIds.length
+        });
+      } else if (block.type === "tool_use") {
+        textContent += `\nUSE_TOOL(${block.name}, ${JSON.stringify(block.input || {})})\n`;
       } else if (block.type === "text" && block.text) {
         textContent += block.text + " ";
         debugLog('TEXT_BLOCK_PROCESSED', { 
@@ -393,7 +1292,7 @@ Available Tools:
     return finalResult;
   }
 
-  async function pollAnswer(convId: string, requestId?: string, pollInterval = Number(process.env.POLL_INTERVAL || 0.5), timeout = Number(process.env.POLL_TIMEOUT || 30)) {
+  async function pollAnswer(convId: string, requestId?: string, pollInterval = Number(process.env.POLL_INTERVAL || 0.5), timeout = pollTimeoutSeconds()) {
     const deadline = Date.now() + timeout * 1000;
     let last: any = { status: "pending", answer: "" };
     while (Date.now() < deadline) {
@@ -407,193 +1306,420 @@ Available Tools:
     return last;
   }
 
-  fastify.post("/v1/complete", async (req, reply) => {
+  fastify.post("/v1/complete", withModel(async (req, reply) => {
     const body = req.body as AnthropicRequest;
-    const sessionId = body.conversation_id || `anon-${Date.now()}`;
+    const sessionId = resolveSessionId(body, req.headers, 'anon');
     const userMsgs = (body.messages || []).filter(m => m.role === "user");
-    if (!userMsgs.length) return reply.status(400).send({ error: "no user message" });
-    const lastUserMsg = userMsgs[userMsgs.length - 1];
-    const rawUserMessage = typeof lastUserMsg.content === 'string' ? lastUserMsg.content : 
-      Array.isArray(lastUserMsg.content) ? 
-        lastUserMsg.content.filter(b => b.type === 'text').map(b => b.text).join(' ') : 
-        String(lastUserMsg.content);
-    
-    // Process tools and inject them into the user message for Toqan AI
-    const user_message = processToolsForToqan(body.tools, rawUserMessage);
+    if (!userMsgs.length) return sendError(reply, invalidRequest("messages must contain at least one user message"));
 
     // Check for forced strategy from headers
     const forceStrategy = req.headers['x-force-strategy'] as SmartRequestOptions['strategy'];
     
+    let lease: SessionLease | undefined;
     try {
-      const result = await handleWithSmartRequest(user_message, sessionId, {
-        strategy: forceStrategy || 'auto'
-      });
+      lease = await sessionQueue.acquire(sessionId);
+      // Collect every unsent message and inject the tools for Toqan AI
+      const turn = await prepareSmartTurn(sessionId, body);
+      if (!turn.message) return sendError(reply, invalidRequest("No valid user message content found"));
 
-      // Store conversation mapping for traditional clients
-      await redis.hset(MAP_KEY, sessionId, result.conversationId);
-      await redis.set(META_PREFIX + result.conversationId, JSON.stringify({ 
-        created_at: new Date().toISOString(), 
-        sessionId,
-        strategy: result.strategy 
-      }));
+      const result = await handleWithSmartRequest(turn.message, sessionId, forceStrategy ? {
+        strategy: forceStrategy
+      } : {}, extractSystemPrompt(body.system), turn.fileIds.length > 0 ? turn.fileIds.map(id => ({ id })) : undefined, turn.toolsHash);
+
+      // Record the strategy on the conversation metadata
+      await sessions.updateMeta(result.conversationId, sessionId, { strategy: result.strategy });
+
+      const limited = applyResponseLimits(cleanAiResponse(result.answer), body);
+      const completion = limited.text;
+      await recordSync(sessionId, body, completion, { usage: result.usage, strategy: result.strategy });
+
+      // Smart strategies report what they actually sent and received; direct requests are estimated
+      const usage = result.usage || { input_tokens: estimateInputTokens(body), output_tokens: smartEstimateTokens(completion) };
+      const replyAttachments = await attachments.collect(result.conversationId, fileOwner(req.headers));
 
       const response: AnthropicCompletionResponse = {
         id: `msg_${Math.random().toString(36).slice(2)}`,
         object: "completion",
         created: Math.floor(Date.now() / 1000),
-        model: body.model || "claude-3-sonnet-20240229",
-        completion: cleanAiResponse(result.answer),
-        stop_reason: "end_turn",
+        model: responseModel(body),
+        completion,
+        stop_reason: limited.stopReason || "end_turn",
+        stop_sequence: limited.stopSequence,
         usage: {
-          prompt_tokens: 0, // Toqan doesn't provide token counts
-          completion_tokens: 0,
-          total_tokens: 0
+          prompt_tokens: usage.input_tokens,
+          completion_tokens: usage.output_tokens,
+          total_tokens: usage.input_tokens + usage.output_tokens
+        },
+        ...(replyAttachments.length > 0 ? { attachments: replyAttachments } : {})
+      };
+      
+      return reply.send(response);
+      
+    } catch (error: any) {
+      console.error('Smart request handling failed:', error);
+      return sendError(reply, error);
+    } finally {
+      await lease?.release();
+    }
+  }));
+
+  fastify.post("/v1/complete/stream", withModel(async (req, reply) => {
+    const body = req.body as AnthropicRequest;
+    const sessionId = resolveSessionId(body, req.headers, 'anon');
+    const userMsgs = (body.messages || []).filter(m => m.role === "user");
+    if (!userMsgs.length) return sendError(reply, invalidRequest("messages must contain at least one user message"));
+
+    // The whole stream runs as the session's turn
+    return sessionQueue.run(sessionId, async () => {
+      // Collect every unsent message and inject the tools for Toqan AI
+      const turn = await prepareSmartTurn(sessionId, body);
+      const user_message = turn.message;
+      if (!user_message) return sendError(reply, invalidRequest("No valid user message content found"));
+      const systemPrompt = extractSystemPrompt(body.system);
+
+      // Check for forced strategy from headers
+      const forceStrategy = req.headers['x-force-strategy'] as SmartRequestOptions['strategy'];
+    
+      // SSE setup
+      reply.raw.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive"
+      });
+
+      let streamedAnswer = "";
+      let limited = applyResponseLimits("", body);
+      let usage: TokenUsage | undefined;
+      let strategy = 'direct';
+      // Conversation whose answer completed, so Toqan's attachments to it can be returned
+      let answeredConv: string | undefined;
+      try {
+        // For streaming, we need to handle smart requests differently
+        // since chunking and file uploads don't stream naturally
+        const tokens = smartEstimateTokens(user_message);
+        const turnFiles = turn.fileIds.length > 0 ? turn.fileIds : body.file_ids && await resolveFileIds(body.file_ids);
+      
+        if (exceedsTokenLimit(user_message, DIRECT_TOKEN_LIMIT)) {
+          console.log(`🌊 Smart streaming for ${tokens} tokens - using simulated streaming`);
+        
+          // Send initial progress message
+          reply.raw.write(`data: ${JSON.stringify({ delta: `[Processing large context: ${tokens} tokens...]\n\n` })}\n\n`);
+        
+          const result = await smartHandler.handleLargeRequest(applySystemPrompt(systemPrompt, user_message), {
+            ...modelSmartOptions(),
+            ...(forceStrategy ? { strategy: forceStrategy } : {}),
+            sessionId,
+            files: turnFiles?.map(id => ({ id }))
+          });
+
+          // Store conversation mapping
+          await sessions.mapConversation(sessionId, result.conversationId);
+          await sessions.updateMeta(result.conversationId, sessionId, {
+            strategy: result.strategy,
+            system_hash: systemPrompt ? hashContent(systemPrompt) : undefined,
+            ...(turn.toolsHash ? { tools_hash: turn.toolsHash } : {})
+          });
+
+          // Send the final answer as a stream chunk
+          limited = applyResponseLimits(cleanAiResponse(result.answer), body);
+          usage = { input_tokens: result.totalInputTokens, output_tokens: result.totalResponseTokens };
+          strategy = result.strategy;
+          reply.raw.write(`data: ${JSON.stringify({ delta: limited.text })}\n\n`);
+          streamedAnswer = limited.text;
+          answeredConv = result.conversationId;
+        
+        } else {
+          console.log(`🌊 Direct streaming for ${tokens} tokens`);
+        
+          // Use traditional streaming logic for smaller requests
+          const sentTurn = await sendToConversation(sessionId, user_message, {
+            files: turnFiles?.map(id => ({ id })),
+            systemPrompt,
+            toolsHash: turn.toolsHash
+          });
+          const toqanConv = sentTurn.conversationId;
+          const request_id = sentTurn.requestId;
+
+          // Traditional streaming polling
+          let sent = "";
+          let ans = "";
+          const pollInterval = Number(process.env.POLL_INTERVAL || 0.5) * 1000;
+          const timeout = pollTimeoutSeconds() * 1000;
+          const deadline = Date.now() + timeout;
+
+          while (Date.now() < deadline) {
+            const r = await getAnswer(toqanConv, request_id);
+            ans = r.answer || "";
+            const status = (r.status || "").toString().toLowerCase();
+            const finished = ["finished", "done", "completed"].includes(status) && !!ans;
+
+            // Never stream past a stop sequence or max_tokens
+            const visible = applyResponseLimits(ans, body, !finished).text;
+            if (visible.length > sent.length && visible.startsWith(sent)) {
+              const delta = visible.slice(sent.length);
+              sent = visible;
+              reply.raw.write(`data: ${JSON.stringify({ delta })}\n\n`);
+            }
+            if (finished) {
+              answeredConv = toqanConv;
+              break;
+            }
+            await new Promise((res) => setTimeout(res, pollInterval));
+          }
+          limited = applyResponseLimits(ans, body);
+          streamedAnswer = cleanAiResponse(sent);
         }
+
+        await recordSync(sessionId, body, streamedAnswer, { usage, strategy });
+        usage = usage || { input_tokens: estimateInputTokens(body), output_tokens: smartEstimateTokens(streamedAnswer) };
+        const replyAttachments = answeredConv ? await attachments.collect(answeredConv, fileOwner(req.headers)) : [];
+
+        // Send completion signal
+        reply.raw.write(`data: ${JSON.stringify({
+          done: true,
+          stop_reason: limited.stopReason || "end_turn",
+          stop_sequence: limited.stopSequence,
+          usage: {
+            prompt_tokens: usage.input_tokens,
+            completion_tokens: usage.output_tokens,
+            total_tokens: usage.input_tokens + usage.output_tokens
+          },
+          ...(replyAttachments.length > 0 ? { attachments: replyAttachments } : {})
+        })}\n\n`);
+      
+      } catch (error: any) {
+        console.error('Smart streaming failed:', error);
+        reply.raw.write(`data: ${JSON.stringify(classifyError(error).toEnvelope())}\n\n`);
+      } finally {
+        try { reply.raw.end(); } catch {}
+      }
+      return reply;
+    });
+  }));
+
+  // files
+  // Upload one or more files (multipart); each is sent to Toqan and registered for the caller
+  // One file per request, as in Anthropic's Files API
+  fastify.post("/v1/files", withModel(async (req, reply) => {
+    const owner = fileOwner(req.headers);
+    const parts = [];
+    for await (const part of req.files()) {
+      parts.push({ buffer: await part.toBuffer(), filename: part.filename, mimeType: part.mimetype || "application/octet-stream" });
+    }
+
+    if (parts.length === 0) return sendError(reply, invalidRequest("file required"));
+    if (parts.length > 1) return sendError(reply, invalidRequest("Upload one file per request"));
+    const { buffer, filename, mimeType } = parts[0];
+
+    let toqanFileId: string;
+    try {
+      toqanFileId = (await cachedUpload(buffer, () => fileUploads.uploadBuffer(buffer, filename, mimeType)))!;
+    } catch (error: any) {
+      return sendError(reply, new BridgeError("api_error", error.message, 502));
+    }
+
+    const file = await files.createFile({ toqan_file_id: toqanFileId, filename, mime_type: mimeType, owner }, buffer);
+    debugLog('FILE_UPLOADED', { id: file.id, toqanFileId, filename: file.filename, size: file.size_bytes });
+    return reply.send(toFileMetadata(file));
+  }));
+
+  fastify.get("/v1/files", async (req, reply) => {
+    const query = req.query as { limit?: string; after_id?: string; before_id?: string };
+    const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 1000);
+    const page = await files.listFiles(fileOwner(req.headers), limit, query.after_id, query.before_id);
+    const data = page.data.map(toFileMetadata);
+
+    return reply.send({
+      data,
+      has_more: page.has_more,
+      first_id: data[0]?.id ?? null,
+      last_id: data[data.length - 1]?.id ?? null
+    });
+  });
+
+  // A file of the caller, or null; other owners' files look like they don't exist
+  async function ownedFile(req: FastifyRequest) {
+    const fileId = (req.params as { file_id: string }).file_id;
+    const file = await files.getFile(fileId);
+    return file && file.owner === fileOwner(req.headers) ? file : null;
+  }
+
+  fastify.get("/v1/files/:file_id", async (req, reply) => {
+    const file = await ownedFile(req);
+    if (!file) return sendError(reply, new BridgeError("not_found_error", `file: ${(req.params as any).file_id}`, 404));
+    return reply.send(toFileMetadata(file));
+  });
+
+  fastify.get("/v1/files/:file_id/content", async (req, reply) => {
+    const file = await ownedFile(req);
+    if (!file) return sendError(reply, new BridgeError("not_found_error", `file: ${(req.params as any).file_id}`, 404));
+
+    const content = file.downloadable ? await fileContent(file) : null;
+    if (!content) return sendError(reply, invalidRequest(`File ${file.id} is not downloadable`));
+
+    return reply
+      .header("content-type", file.mime_type)
+      .header("content-disposition", `attachment; filename="${file.filename.replace(/"/g, '')}"`)
+      .send(content);
+  });
+
+  fastify.delete("/v1/files/:file_id", async (req, reply) => {
+    const file = await ownedFile(req);
+    if (!file) return sendError(reply, new BridgeError("not_found_error", `file: ${(req.params as any).file_id}`, 404));
+
+    await files.deleteFile(file);
+    return reply.send({ id: file.id, type: "file_deleted" });
+  });
+
+  // Run a messages turn (already in Anthropic form) and answer in the endpoint's protocol
+  async function answerMessages(req: FastifyRequest, reply: FastifyReply, body: AnthropicRequest, protocol: ResponseProtocol) {
+    let lease: SessionLease | undefined;
+    try {
+    const sessionId = resolveSessionId(body, req.headers, 'session');
+    console.log(`🪪 Session: ${sessionId}`);
+    const userMsgs = (body.messages || []).filter(m => m.role === "user");
+    if (!userMsgs.length) return sendError(reply, invalidRequest("messages must contain at least one user message"), protocol.errorFormat);
+
+    const toolChoice = normalizeToolChoice(body.tool_choice, body.tools);
+    if (toolChoice.type === "tool" && !body.tools?.some(t => t.name === toolChoice.name)) {
+      return sendError(reply, invalidRequest(`tool_choice names a tool that is not in tools: ${toolChoice.name}`), protocol.errorFormat);
+    }
+    
+    // Wait for the session's earlier turns, so their answers can't be mixed up with this one's
+    lease = await sessionQueue.acquire(sessionId);
+
+    // Collect every message added since the last sync (text, tool results, files)
+    console.log('🔍 Processing unsent messages with potential files...');
+    const replay = await prepareTurn(sessionId, body);
+    const user_message = replay.message;
+    const fileIds = replay.fileIds;
+
+    debugLog('CONTENT_BLOCKS_PROCESSING_RESULT', {
+      timestamp: new Date().toISOString(),
+      result: {
+        filesUploaded: fileIds.length,
+        fileIds: fileIds,
+        textExtracted: user_message,
+        textLength: user_message.length,
+        replayed: replay.replayed,
+        forked: replay.forked
+      }
+    });
+
+    console.log(`📎 Processing result:`);
+    console.log(`  - Files uploaded: ${fileIds.length}`);
+    console.log(`  - Text extracted: ${user_message.length} chars`);
+    console.log(`  - Text preview: "${user_message.substring(0, 200)}${user_message.length > 200 ? '...' : ''}"`);
+    
+    if (!user_message) {
+      return sendError(reply, invalidRequest("No valid user message content found"), protocol.errorFormat);
+    }
+
+    const systemPrompt = extractSystemPrompt(body.system);
+    const model = responseModel(body);
+
+    // Replayed history too large for a single create_conversation: let the smart handler chunk it
+    if (replay.replayed && exceedsTokenLimit(user_message, DIRECT_TOKEN_LIMIT)) {
+      console.log(`🧠 Replayed history exceeds ${DIRECT_TOKEN_LIMIT} tokens - using smart request handling`);
+      let smart: { usage?: TokenUsage; strategy?: string } = {};
+      const runSmartRequest = async () => {
+        const result = await handleWithSmartRequest(user_message, sessionId, {}, systemPrompt, undefined, replay.toolsHash);
+        smart = { usage: result.usage, strategy: result.strategy };
+        const answer = await resolveToolAnswer(result.conversationId, result.answer, body);
+        return { answer, usage: result.usage, attachments: await attachments.collect(result.conversationId, fileOwner(req.headers)) };
       };
-      
-      return reply.send(response);
-      
-    } catch (error: any) {
-      console.error('Smart request handling failed:', error);
-      return reply.status(502).send({ 
-        error: "processing_failed", 
-        message: error.message,
-        strategy_used: "smart_handling"
-      });
+
+      if (body.stream) {
+        const streamed = await streamCompletedAnthropicAnswer(protocol.streamWriter(reply.raw, { model, inputTokens: estimateInputTokens(body) }), user_message, runSmartRequest, body);
+        if (streamed) await recordSync(sessionId, body, streamed, smart);
+        return reply;
+      }
+
+      const { answer, usage, attachments: replyAttachments } = await runSmartRequest();
+      const smartResponse = formatAnthropicResponse(fallbackForEmptyAnswer(answer, user_message, "finished"), model, body, usage);
+      smartResponse.content.push(...replyAttachments);
+      await recordSync(sessionId, body, smartResponse.content, smart);
+      return reply.send(protocol.formatResponse(smartResponse));
     }
-  });
 
-  fastify.post("/v1/complete/stream", async (req, reply) => {
-    const body = req.body as AnthropicRequest;
-    const sessionId = body.conversation_id || `anon-${Date.now()}`;
-    const userMsgs = (body.messages || []).filter(m => m.role === "user");
-    if (!userMsgs.length) return reply.status(400).send({ error: "no user message" });
-    const lastUserMsg = userMsgs[userMsgs.length - 1];
-    const rawUserMessage = typeof lastUserMsg.content === 'string' ? lastUserMsg.content : 
-      Array.isArray(lastUserMsg.content) ? 
-        lastUserMsg.content.filter(b => b.type === 'text').map(b => b.text).join(' ') : 
-        String(lastUserMsg.content);
-    
-    // Process tools and inject them into the user message for Toqan AI
-    const user_message = processToolsForToqan(body.tools, rawUserMessage);
+    // Usar fileIds processados ou file_ids do body como fallback
+    const filesToSend = fileIds.length > 0
+      ? fileIds.map(id => ({ id }))
+      : body.file_ids && (await resolveFileIds(body.file_ids)).map(id => ({ id }));
+    if (filesToSend?.length) {
+      console.log(`📎 Sending ${filesToSend.length} files with this turn`);
+    }
 
-    // Check for forced strategy from headers
-    const forceStrategy = req.headers['x-force-strategy'] as SmartRequestOptions['strategy'];
-    
-    // SSE setup
-    reply.raw.writeHead(200, {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive"
+    const sentTurn = await sendToConversation(sessionId, user_message, {
+      files: filesToSend,
+      systemPrompt,
+      toolsHash: replay.toolsHash
     });
+    const toqanConv = sentTurn.conversationId;
+    const request_id = sentTurn.requestId;
+    console.log(`📨 Message sent to Toqan, polling for response...`);
 
-    try {
-      // For streaming, we need to handle smart requests differently
-      // since chunking and file uploads don't stream naturally
-      const tokens = smartEstimateTokens(user_message);
-      
-      if (exceedsTokenLimit(user_message, 115000)) {
-        console.log(`🌊 Smart streaming for ${tokens} tokens - using simulated streaming`);
-        
-        // Send initial progress message
-        reply.raw.write(`data: ${JSON.stringify({ delta: `[Processing large context: ${tokens} tokens...]\n\n` })}\n\n`);
-        
-        const result = await smartHandler.handleLargeRequest(user_message, {
-          strategy: forceStrategy || 'auto',
-          sessionId
-        });
-
-        // Store conversation mapping
-        await redis.hset(MAP_KEY, sessionId, result.conversationId);
-        await redis.set(META_PREFIX + result.conversationId, JSON.stringify({ 
-          created_at: new Date().toISOString(), 
-          sessionId,
-          strategy: result.strategy 
-        }));
-
-        // Send the final answer as a stream chunk
-        const cleanAnswer = cleanAiResponse(result.answer);
-        reply.raw.write(`data: ${JSON.stringify({ delta: cleanAnswer })}\n\n`);
-        
-      } else {
-        console.log(`🌊 Direct streaming for ${tokens} tokens`);
-        
-        // Use traditional streaming logic for smaller requests
-        const redisInst = redis;
-        let toqanConv = await redisInst.hget(MAP_KEY, sessionId);
-        let request_id: string | undefined = undefined;
-
-        if (!toqanConv) {
-          const lockKey = LOCK_PREFIX + sessionId;
-          const locked = await acquireLock(lockKey);
-          try {
-            toqanConv = await redisInst.hget(MAP_KEY, sessionId);
-            if (!toqanConv) {
-              const createResp = await createConversation(user_message, body.file_ids?.map(id => ({ id })));
-              toqanConv = createResp.conversation_id;
-              request_id = createResp.request_id;
-              if (!toqanConv) {
-                reply.raw.write(`data: ${JSON.stringify({ error: "Failed to create conversation" })}\n\n`);
-                reply.raw.end();
-                return;
-              }
-              await redisInst.hset(MAP_KEY, sessionId, toqanConv);
-              await redisInst.set(META_PREFIX + toqanConv, JSON.stringify({ created_at: new Date().toISOString(), sessionId }));
-            }
-          } finally {
-            if (locked) await releaseLock(lockKey);
-          }
-        } else {
-          const cont = await continueConversation(toqanConv, user_message);
-          request_id = cont.request_id;
-        }
+    if (body.stream) {
+      console.log(`🌊 Streaming Toqan answer as ${protocol.errorFormat === 'openai' ? 'OpenAI' : 'Anthropic'} SSE events`);
+      const writer = protocol.streamWriter(reply.raw, { model, inputTokens: estimateInputTokens(body) });
+      const streamed = await streamAnthropicAnswer(writer, toqanConv, request_id, user_message, body, fileOwner(req.headers));
+      if (streamed) await recordSync(sessionId, body, streamed);
+      return reply;
+    }
 
-        // Traditional streaming polling
-        let sent = "";
-        const pollInterval = Number(process.env.POLL_INTERVAL || 0.5) * 1000;
-        const timeout = Number(process.env.POLL_TIMEOUT || 30) * 1000;
-        const deadline = Date.now() + timeout;
-
-        while (Date.now() < deadline) {
-          const r = await getAnswer(toqanConv, request_id);
-          const ans = r.answer || "";
-          const status = (r.status || "").toString().toLowerCase();
-          if (ans && ans !== sent) {
-            const delta = ans.slice(sent.length);
-            sent = ans;
-            reply.raw.write(`data: ${JSON.stringify({ delta })}\n\n`);
-          }
-          if (["finished", "done", "completed"].includes(status) && ans) break;
-          await new Promise((res) => setTimeout(res, pollInterval));
-        }
+        const final = await pollAnswer(toqanConv, request_id);
+      console.log(`📥 Received response from Toqan: ${final.status} (${(final.answer || '').length} chars)`);
+      
+      // Handle empty responses from Toqan API (likely due to credit limits or large requests)
+      const toqanResponse = fallbackForEmptyAnswer(final.answer || "", user_message, final.status);
+      const repairedResponse = final.answer ? await resolveToolAnswer(toqanConv, toqanResponse, body) : toqanResponse;
+      
+      // Use the new tool execution framework to format the response
+      const response = formatAnthropicResponse(repairedResponse, model, body);
+      
+      // An answer Toqan never finished has no stop reason; tool calls and limits keep theirs
+      if (response.stop_reason === "end_turn" && final.status !== "finished") {
+        response.stop_reason = null;
       }
 
-      // Send completion signal
-      reply.raw.write(`data: ${JSON.stringify({ done: true })}\n\n`);
+      // Files Toqan attached to its reply come back as image and document blocks
+      if (final.status === "finished") {
+        response.content.push(...await attachments.collect(toqanConv, fileOwner(req.headers)));
+      }
+      
+      const endTime = new Date().toISOString().replace('T', ' ').slice(0, 19);
+      const responseLength = response.content.reduce((total: number, block: any) => {
+        return total + (block.text?.length || 0);
+      }, 0);
+      console.log(`✅ ${endTime} - Response sent to Claude Code (${responseLength} chars, ${response.content.length} blocks)`);
+      debugLog('CLAUDE_RESPONSE_SENT', { responseLength, blockCount: response.content.length, status: 'success' });
       
+      await recordSync(sessionId, body, response.content);
+      return reply.send(protocol.formatResponse(response));
     } catch (error: any) {
-      console.error('Smart streaming failed:', error);
-      reply.raw.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+      const errorTimestamp = new Date().toISOString().replace('T', ' ').slice(0, 19);
+      console.error(`❌ ${errorTimestamp} - Error in Claude Code request:`, error);
+      debugLog('CLAUDE_REQUEST_ERROR', { 
+        error: error.message,
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        data: error.response?.data,
+        stack: error.stack
+      });
+      
+      // Streams report their own errors as SSE events once headers are out
+      if (reply.raw.headersSent) {
+        try { reply.raw.end(); } catch {}
+        return reply;
+      }
+      return sendError(reply, error, protocol.errorFormat);
     } finally {
-      try { reply.raw.end(); } catch {}
+      await lease?.release();
     }
-    return reply;
-  });
-
-  // files
-  fastify.post("/v1/files", async (req, reply) => {
-    // fastify-multipart: parse single file field 'file'
-    const mp = await req.file();
-    if (!mp) return reply.code(400).send({ error: "file required" });
-    const buffer = await mp.toBuffer();
-    const resp = await uploadFile(buffer, mp.filename, mp.mimetype || "application/octet-stream");
-    const fileId = resp.file_id || resp.id;
-    if (!fileId) return reply.code(502).send({ error: "unexpected toqan upload response", raw: resp });
-    return reply.send({ id: fileId, toqan_raw: resp });
-  });
+  }
 
   // Modern Messages API endpoint
-  fastify.post("/v1/messages", async (req, reply) => {
+  fastify.post("/v1/messages", withModel(async (req, reply) => {
     const timestamp = new Date().toISOString().replace('T', ' ').slice(0, 19);
     console.log(`🔄 ${timestamp} - Claude Code Request: POST /v1/messages`);
     
@@ -815,205 +1941,319 @@ Available Tools:
 
     debugLog('ULTRA_DETAILED_CLAUDE_REQUEST', ultraDetailedLogData);
     
+    return answerMessages(req, reply, body, anthropicProtocol);
+  }));
+
+  // OpenAI-compatible Chat Completions endpoint, served by the same session machinery
+  fastify.post("/v1/chat/completions", withModel(async (req, reply) => {
+    const timestamp = new Date().toISOString().replace('T', ' ').slice(0, 19);
+    console.log(`🔄 ${timestamp} - OpenAI Request: POST /v1/chat/completions`);
+
+    const chat = req.body as OpenAIChatRequest;
+    let body: AnthropicRequest;
     try {
-    const sessionId = body.conversation_id || `session-${Date.now()}`;
-    const userMsgs = (body.messages || []).filter(m => m.role === "user");
-    if (!userMsgs.length) return reply.status(400).send({ error: "No user message found" });
-    
-    const lastUserMsg = userMsgs[userMsgs.length - 1];
-    let user_message: string;
-    let fileIds: string[] = [];
-    
-    // Handle different content formats from Claude Code
-    if (typeof lastUserMsg.content === 'string') {
-      user_message = lastUserMsg.content;
-    } else if (Array.isArray(lastUserMsg.content)) {
-      console.log('🔍 Processing content blocks with potential files...');
-      debugLog('CONTENT_BLOCKS_DETECTED', { 
-        blockCount: lastUserMsg.content.length,
-        blockTypes: lastUserMsg.content.map((b: any) => b.type)
-      });
-      
-      // Processar arquivos e extrair texto com LOG DETALHADO
-      console.log(`🔍 Processing ${lastUserMsg.content.length} content blocks...`);
-      
-      // Log ultra-detalhado do processamento
-      const detailedProcessingLog = {
-        timestamp: new Date().toISOString(),
-        inputBlocks: lastUserMsg.content.map((block, i) => ({
-          index: i,
-          type: block.type,
-          keys: Object.keys(block),
-          textLength: block.text?.length || 0,
-          textPreview: block.text?.substring(0, 200),
-          fullTextContent: block.text, // TEXTO COMPLETO de cada block
-          hasSource: !!block.source,
-          sourceDetails: block.source,
-          fullBlock: block // BLOCK COMPLETO
-        }))
-      };
-      
-      debugLog('CONTENT_BLOCKS_PROCESSING_START', detailedProcessingLog);
-      
-      const processResult = await processFiles(lastUserMsg.content as ContentBlock[]);
-      user_message = processResult.textContent;
-      fileIds = processResult.fileIds;
-      
-      // Log do resultado do processamento
-      const processingResultLog = {
-        timestamp: new Date().toISOString(),
-        result: {
-          filesUploaded: fileIds.length,
-          fileIds: fileIds,
-          textExtracted: user_message,
-          textLength: user_message.length,
-          originalBlockCount: lastUserMsg.content.length
-        },
-        analysis: {
-          hasText: !!user_message,
-          hasFiles: fileIds.length > 0,
-          blocksProcessed: lastUserMsg.content.length,
-          extractionSuccessful: user_message.length > 0
-        }
-      };
-      
-      debugLog('CONTENT_BLOCKS_PROCESSING_RESULT', processingResultLog);
-      
-      console.log(`📎 Processing result:`);
-      console.log(`  - Files uploaded: ${fileIds.length}`);
-      console.log(`  - Text extracted: ${user_message.length} chars`);
-      console.log(`  - Text preview: "${user_message.substring(0, 200)}${user_message.length > 200 ? '...' : ''}"`);
-      
-      // Se não há texto, mas há arquivos, criar uma mensagem padrão
-      if (!user_message && fileIds.length > 0) {
-        user_message = "Please analyze the uploaded file(s).";
-        console.log(`  - Using default message for files without text`);
-        debugLog('USING_DEFAULT_MESSAGE_FOR_FILES', { fileCount: fileIds.length });
-      }
-      
-      // Apply tools processing to the final user message
-      user_message = processToolsForToqan(body.tools, user_message);
-      
-      // Alerta se texto estiver vazio mas havia content blocks
-      if (!user_message && lastUserMsg.content.length > 0) {
-        console.log(`⚠️ WARNING: ${lastUserMsg.content.length} content blocks but no text extracted!`);
-        debugLog('WARNING_NO_TEXT_EXTRACTED', { 
-          blockCount: lastUserMsg.content.length,
-          blocks: lastUserMsg.content
-        });
-      }
-    } else {
-      user_message = String(lastUserMsg.content);
+      body = toAnthropicRequest(chat);
+    } catch (error: any) {
+      return sendError(reply, error, 'openai');
     }
-    
-    if (!user_message) {
-      return reply.status(400).send({ error: "No valid user message content found" });
+
+    debugLog('OPENAI_CHAT_REQUEST', {
+      model: chat.model,
+      messageCount: chat.messages.length,
+      toolCount: body.tools?.length || 0,
+      stream: !!chat.stream
+    });
+
+    return answerMessages(req, reply, body, openAIProtocol(chat));
+  }, 'openai'));
+
+  // Message Batches API
+  fastify.post("/v1/messages/batches", { bodyLimit: BATCH_MAX_BODY_BYTES }, async (req, reply) => {
+    const requests = (req.body as { requests?: BatchRequest[] })?.requests;
+    if (!Array.isArray(requests) || requests.length === 0) {
+      return sendError(reply, invalidRequest("requests must be a non-empty array"));
+    }
+    if (requests.length > BATCH_MAX_REQUESTS) {
+      return sendError(reply, invalidRequest(`A batch can hold at most ${BATCH_MAX_REQUESTS} requests`));
     }
-    let toqanConv = await redis.hget(MAP_KEY, sessionId);
-    let request_id: string | undefined = undefined;
 
-    if (!toqanConv) {
-      const lockKey = LOCK_PREFIX + sessionId;
-      const locked = await acquireLock(lockKey);
+    const seen = new Set<string>();
+    for (const [i, request] of requests.entries()) {
+      if (typeof request?.custom_id !== 'string' || !request.custom_id) {
+        return sendError(reply, invalidRequest(`requests.${i}.custom_id must be a non-empty string`));
+      }
+      if (seen.has(request.custom_id)) {
+        return sendError(reply, invalidRequest(`requests.${i}.custom_id is a duplicate: ${request.custom_id}`));
+      }
+      seen.add(request.custom_id);
+      if (!request.params || !Array.isArray(request.params.messages)) {
+        return sendError(reply, invalidRequest(`requests.${i}.params.messages must be an array`));
+      }
+      if (request.params.stream) {
+        return sendError(reply, invalidRequest(`requests.${i}.params.stream is not supported in batches`));
+      }
       try {
-        toqanConv = await redis.hget(MAP_KEY, sessionId);
-        if (!toqanConv) {
-          // Usar fileIds processados ou file_ids do body como fallback
-          const filesToSend = fileIds.length > 0 
-            ? fileIds.map(id => ({ id }))
-            : body.file_ids?.map(id => ({ id }));
-            
-          console.log(`🚀 Creating new Toqan conversation with ${filesToSend?.length || 0} files`);
-          const createResp = await createConversation(user_message, filesToSend);
-          toqanConv = createResp.conversation_id;
-          request_id = createResp.request_id;
-          if (!toqanConv) return reply.status(502).send({ error: "toqan no conversation_id" });
-          await redis.hset(MAP_KEY, sessionId, toqanConv);
-          await redis.set(META_PREFIX + toqanConv, JSON.stringify({ created_at: new Date().toISOString(), sessionId }));
-        }
-      } finally {
-        if (locked) await releaseLock(lockKey);
+        models.resolve(request.params.model);
+      } catch (error: any) {
+        return sendError(reply, error);
       }
-    } else {
-      console.log(`🔄 Continuing Toqan conversation: ${toqanConv}`);
-      // Enviar arquivos se houver
-      const filesToSend = fileIds.length > 0 ? fileIds.map(id => ({ id })) : undefined;
-      if (filesToSend) {
-        console.log(`📎 Continuing conversation with ${filesToSend.length} new files`);
+    }
+
+    const batch = await batches.createBatch(requests);
+    console.log(`📦 Queued batch ${batch.id} with ${requests.length} requests`);
+    debugLog('BATCH_CREATED', { batchId: batch.id, requests: requests.length });
+    return reply.send(batch);
+  });
+
+  fastify.get("/v1/messages/batches", async (req, reply) => {
+    const query = req.query as { limit?: string; after_id?: string; before_id?: string };
+    const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 1000);
+    const page = await batches.listBatches(limit, query.after_id, query.before_id);
+
+    return reply.send({
+      data: page.data,
+      has_more: page.has_more,
+      first_id: page.data[0]?.id ?? null,
+      last_id: page.data[page.data.length - 1]?.id ?? null
+    });
+  });
+
+  fastify.get("/v1/messages/batches/:batch_id", async (req, reply) => {
+    const batchId = (req.params as { batch_id: string }).batch_id;
+    const batch = await batches.getBatch(batchId);
+    if (!batch) return sendError(reply, new BridgeError("not_found_error", `message_batch: ${batchId}`, 404));
+    return reply.send(batch);
+  });
+
+  fastify.post("/v1/messages/batches/:batch_id/cancel", async (req, reply) => {
+    const batchId = (req.params as { batch_id: string }).batch_id;
+    const batch = await batches.cancelBatch(batchId);
+    if (!batch) return sendError(reply, new BridgeError("not_found_error", `message_batch: ${batchId}`, 404));
+    debugLog('BATCH_CANCELED', { batchId, status: batch.processing_status });
+    return reply.send(batch);
+  });
+
+  fastify.get("/v1/messages/batches/:batch_id/results", async (req, reply) => {
+    const batchId = (req.params as { batch_id: string }).batch_id;
+    const batch = await batches.getBatch(batchId);
+    if (!batch) return sendError(reply, new BridgeError("not_found_error", `message_batch: ${batchId}`, 404));
+    if (batch.processing_status !== 'ended') {
+      return sendError(reply, invalidRequest(`message_batch ${batchId} has not ended yet (${batch.processing_status})`));
+    }
+
+    return reply.type("application/x-jsonl").send(await batches.getResults(batchId));
+  });
+
+  // Run a job's turn through the smart handler, saving steps and progress to Redis as they
+  // happen. Writes are chained so the record never loses a step to a concurrent update.
+  // The session's lease is released once the job has finished.
+  async function runJob(
+    jobId: string,
+    sessionId: string,
+    body: AnthropicRequest,
+    turn: { message: string; fileIds: string[]; toolsHash?: string },
+    lease: SessionLease,
+    strategy?: SmartRequestOptions['strategy']
+  ): Promise<void> {
+    let writes = Promise.resolve();
+    const enqueue = (write: () => Promise<void>) => {
+      writes = writes.then(write).catch((error: any) => console.error(`❌ Failed to save job ${jobId} progress:`, error.message));
+    };
+
+    await jobs.updateJob(jobId, { status: 'running' });
+    const systemPrompt = extractSystemPrompt(body.system);
+
+    try {
+      const turnFiles = turn.fileIds.length > 0 ? turn.fileIds : body.file_ids && await resolveFileIds(body.file_ids);
+      const result = await smartHandler.handleLargeRequest(applySystemPrompt(systemPrompt, turn.message), {
+        ...modelSmartOptions(),
+        ...(strategy ? { strategy } : {}),
+        sessionId,
+        files: turnFiles?.map(id => ({ id })),
+        progressCallback: (update) => enqueue(() => jobs.addEvent(jobId, update)),
+        onProcessingStep: (step) => enqueue(() => jobs.addStep(jobId, step))
+      });
+
+      await sessions.mapConversation(sessionId, result.conversationId);
+      await sessions.updateMeta(result.conversationId, sessionId, {
+        strategy: result.strategy,
+        system_hash: systemPrompt ? hashContent(systemPrompt) : undefined,
+        ...(turn.toolsHash ? { tools_hash: turn.toolsHash } : {})
+      });
+      await recordSync(sessionId, body, cleanAiResponse(result.answer), {
+        usage: { input_tokens: result.totalInputTokens, output_tokens: result.totalResponseTokens },
+        strategy: result.strategy
+      });
+
+      await writes;
+      await jobs.updateJob(jobId, { status: 'succeeded', result, processingSteps: result.processingSteps });
+      console.log(`✅ Job ${jobId} finished with strategy ${result.strategy} in ${result.totalTime}ms`);
+      debugLog('JOB_SUCCEEDED', { jobId, strategy: result.strategy, totalTime: result.totalTime });
+    } catch (error: any) {
+      await writes;
+      const bridgeError = classifyError(error);
+      await jobs.updateJob(jobId, { status: 'failed', error: bridgeError.toEnvelope() });
+      console.error(`❌ Job ${jobId} failed:`, bridgeError.message);
+      debugLog('JOB_FAILED', { jobId, error: bridgeError.message });
+    } finally {
+      await lease.release();
+    }
+  }
+
+  // Asynchronous jobs for large requests: answers 202 with the job id right away
+  fastify.post("/v1/jobs", withModel(async (req, reply) => {
+    const body = req.body as AnthropicRequest;
+    const userMsgs = (body?.messages || []).filter(m => m.role === "user");
+    if (!userMsgs.length) return sendError(reply, invalidRequest("messages must contain at least one user message"));
+
+    const sessionId = resolveSessionId(body, req.headers, 'job');
+    const forceStrategy = req.headers['x-force-strategy'] as SmartRequestOptions['strategy'];
+    const lease = await sessionQueue.acquire(sessionId);
+    let job;
+    let turn;
+    try {
+      // Jobs always open a conversation of their own, which then carries the session's history
+      turn = await prepareSmartTurn(sessionId, body, { ownConversation: true });
+      if (!turn.message) {
+        await lease.release();
+        return sendError(reply, invalidRequest("No valid user message content found"));
       }
-      const cont = await continueConversation(toqanConv, user_message, filesToSend);
-      request_id = cont.request_id;
-      console.log(`📨 Message sent to Toqan, polling for response...`);
+
+      job = await jobs.createJob(sessionId);
+    } catch (error) {
+      await lease.release();
+      throw error;
     }
+    console.log(`🧾 Job ${job.id} queued for session ${sessionId}`);
+    debugLog('JOB_CREATED', { jobId: job.id, sessionId, tokens: smartEstimateTokens(turn.message) });
 
-        const final = await pollAnswer(toqanConv, request_id);
-      console.log(`📥 Received response from Toqan: ${final.status} (${(final.answer || '').length} chars)`);
-      
-      // Handle empty responses from Toqan API (likely due to credit limits or large requests)
-      let toqanResponse = final.answer || "";
-      if (!toqanResponse.trim() && user_message.length > 5000) {
-        toqanResponse = "I received a large request but wasn't able to process it fully. This might be due to API limits. Please try breaking your request into smaller parts or asking a more specific question.";
-        console.log(`⚠️ Empty response for large request (${user_message.length} chars) - providing fallback message`);
-        debugLog('EMPTY_RESPONSE_FALLBACK', { 
-          messageLength: user_message.length, 
-          toqanStatus: final.status,
-          toqanAnswerLength: (final.answer || '').length 
-        });
-      } else if (!toqanResponse.trim()) {
-        toqanResponse = "I'm having trouble processing your request right now. Please try again or rephrase your question.";
-        console.log(`⚠️ Empty response - providing generic fallback message`);
-        debugLog('EMPTY_RESPONSE_GENERIC', { 
-          messageLength: user_message.length, 
-          toqanStatus: final.status,
-          toqanAnswerLength: (final.answer || '').length 
-        });
+    // Runs past this response, still routed to the request's model and holding the session's lease
+    void runJob(job.id, sessionId, body, turn, lease, forceStrategy);
+    return reply.status(202).send(job);
+  }));
+
+  fastify.get("/v1/jobs/:job_id", async (req, reply) => {
+    const jobId = (req.params as { job_id: string }).job_id;
+    const job = await jobs.getJob(jobId);
+    if (!job) return sendError(reply, new BridgeError("not_found_error", `job: ${jobId}`, 404));
+    return reply.send(job);
+  });
+
+  // Replay the job's progress updates, then follow new ones until the job finishes
+  fastify.get("/v1/jobs/:job_id/events", async (req, reply) => {
+    const jobId = (req.params as { job_id: string }).job_id;
+    if (!(await jobs.getJob(jobId))) return sendError(reply, new BridgeError("not_found_error", `job: ${jobId}`, 404));
+
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+
+    const stream = new ProgressStreamManager(reply.raw, { updateInterval: 0 });
+    const pollInterval = Number(process.env.JOB_EVENTS_POLL_INTERVAL || 0.5) * 1000;
+    let disconnected = false;
+    req.raw.on('close', () => { disconnected = true; });
+
+    try {
+      let cursor = 0;
+      while (!disconnected) {
+        // Status first: a finished job has already written all of its events
+        const job = await jobs.getJob(jobId);
+        const events = await jobs.getEvents(jobId, cursor);
+        cursor += events.length;
+        events.forEach(update => stream.sendProgress(update));
+
+        if (!job || isJobFinished(job)) break;
+        await new Promise((res) => setTimeout(res, pollInterval));
       }
-      
-      // Use the new tool execution framework to format the response
-      const response = formatAnthropicResponse(toqanResponse, body.model || "claude-3-sonnet-20240229");
-      
-      // Update stop reason based on Toqan status
-      response.stop_reason = final.status === "finished" ? "end_turn" : null;
-      
-      const endTime = new Date().toISOString().replace('T', ' ').slice(0, 19);
-      const responseLength = response.content.reduce((total: number, block: any) => {
-        return total + (block.text?.length || 0);
-      }, 0);
-      console.log(`✅ ${endTime} - Response sent to Claude Code (${responseLength} chars, ${response.content.length} blocks)`);
-      debugLog('CLAUDE_RESPONSE_SENT', { responseLength, blockCount: response.content.length, status: 'success' });
-      
-      return reply.send(response);
+      stream.sendDone();
     } catch (error: any) {
-      const errorTimestamp = new Date().toISOString().replace('T', ' ').slice(0, 19);
-      console.error(`❌ ${errorTimestamp} - Error in Claude Code request:`, error);
-      debugLog('CLAUDE_REQUEST_ERROR', { 
-        error: error.message,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        data: error.response?.data,
-        stack: error.stack
+      stream.sendError(classifyError(error).message);
+    } finally {
+      try { reply.raw.end(); } catch {}
+    }
+    return reply;
+  });
+
+  fastify.get("/v1/checkpoints/:checkpoint_id", async (req, reply) => {
+    const checkpointId = (req.params as { checkpoint_id: string }).checkpoint_id;
+    const checkpoint = await checkpoints.get(checkpointId);
+    if (!checkpoint) return sendError(reply, new BridgeError("not_found_error", `checkpoint: ${checkpointId}`, 404));
+    return reply.send(checkpoint);
+  });
+
+  // Continue a failed chunked or hybrid request from its first unfinished chunk
+  fastify.post("/v1/checkpoints/:checkpoint_id/resume", async (req, reply) => {
+    const checkpointId = (req.params as { checkpoint_id: string }).checkpoint_id;
+    const checkpoint = await checkpoints.get(checkpointId);
+    const message = checkpoint && await checkpoints.getMessage(checkpointId);
+    if (!checkpoint || !message) return sendError(reply, new BridgeError("not_found_error", `checkpoint: ${checkpointId}`, 404));
+
+    const model = models.resolve(checkpoint.model);
+    const resume = async () => {
+      console.log(`♻️ Resuming checkpoint ${checkpointId} after ${checkpoint.completedChunks}/${checkpoint.totalChunks} chunks`);
+      const result = await smartHandler.handleLargeRequest(message, {
+        ...modelSmartOptions(),
+        strategy: checkpoint.strategy,
+        sessionId: checkpoint.sessionId
       });
-      
-      // Return an appropriate error response in Anthropic format
-      const errorResponse = {
-        id: `msg_${Math.random().toString(36).slice(2)}`,
-        type: "message",
-        role: "assistant",
-        content: [{
-          type: "text",
-          text: `I encountered an error while processing your request. ${error.response?.data?.error || error.message || 'Unknown error occurred.'}`
-        }],
-        model: body.model || "claude-3-sonnet-20240229",
-        stop_reason: "error" as any,
-        stop_sequence: null,
-        usage: {
-          input_tokens: 0,
-          output_tokens: 0
-        }
-      };
-      
-      return reply.status(error.response?.status || 500).send(errorResponse);
+
+      if (checkpoint.sessionId) {
+        await sessions.mapConversation(checkpoint.sessionId, result.conversationId);
+        await sessions.updateMeta(result.conversationId, checkpoint.sessionId, { strategy: result.strategy });
+      }
+
+      const usage = { input_tokens: result.totalInputTokens, output_tokens: result.totalResponseTokens };
+      return reply.send(formatAnthropicResponse(result.answer, responseModel({ model: checkpoint.model }), { messages: [] }, usage));
+    };
+    return runWithModel(model, () => checkpoint.sessionId ? sessionQueue.run(checkpoint.sessionId, resume) : resume());
+  });
+
+  fastify.get("/v1/sessions", async (req, reply) => {
+    const query = req.query as { limit?: string; after_id?: string; before_id?: string };
+    const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 1000);
+    const page = await sessions.listSessions(limit, query.after_id, query.before_id);
+
+    return reply.send({
+      data: page.data,
+      has_more: page.has_more,
+      first_id: page.data[0]?.id ?? null,
+      last_id: page.data[page.data.length - 1]?.id ?? null
+    });
+  });
+
+  fastify.get("/v1/sessions/:session_id", async (req, reply) => {
+    const sessionId = (req.params as { session_id: string }).session_id;
+    const session = await sessions.getSession(sessionId);
+    if (!session) return sendError(reply, new BridgeError("not_found_error", `session: ${sessionId}`, 404));
+    return reply.send(session);
+  });
+
+  // Forget the session's Toqan conversation: its next turn starts a new one
+  fastify.delete("/v1/sessions/:session_id", async (req, reply) => {
+    const sessionId = (req.params as { session_id: string }).session_id;
+    if (!(await sessions.getConversationId(sessionId))) {
+      return sendError(reply, new BridgeError("not_found_error", `session: ${sessionId}`, 404));
+    }
+
+    await sessions.resetSession(sessionId);
+    console.log(`🗑️ Session ${sessionId} reset`);
+    return reply.send({ id: sessionId, type: "session_deleted" });
+  });
+
+  fastify.post("/v1/sessions/:session_id/rename", async (req, reply) => {
+    const sessionId = (req.params as { session_id: string }).session_id;
+    const name = (req.body as { name?: unknown })?.name;
+    if (typeof name !== 'string' || !name.trim()) return sendError(reply, invalidRequest("name must be a non-empty string"));
+    if (name.length > 200) return sendError(reply, invalidRequest("name must be at most 200 characters"));
+
+    if (!(await sessions.getConversationId(sessionId))) {
+      return sendError(reply, new BridgeError("not_found_error", `session: ${sessionId}`, 404));
     }
+
+    await sessions.renameSession(sessionId, name.trim());
+    return reply.send(await sessions.getSession(sessionId));
   });
 
   fastify.post("/v1/_find_conversation", async (req, reply) => {
@@ -1024,55 +2264,64 @@ Available Tools:
     } catch (error: any) {
       console.error('Error in find_conversation:', error);
       debugLog('FIND_CONVERSATION_ERROR', { error: error.message, data: error.response?.data });
-      return reply.status(error.response?.status || 500).send({
-        error: error.response?.data?.error || error.message || 'Unknown error'
-      });
+      return sendError(reply, error);
     }
   });
 
   fastify.post("/v1/messages/count_tokens", async (req, reply) => {
     const body = req.body as AnthropicRequest;
-    
-    // Simple token counting approximation
-    // Claude Sonnet 4 has ~200k context limit
-    let totalTokens = 0;
-    
-    // Count tokens from messages
-    if (body.messages) {
-      for (const message of body.messages) {
-        if (typeof message.content === 'string') {
-          // Rough approximation: 1 token ≈ 4 characters
-          totalTokens += Math.ceil(message.content.length / 4);
-        } else if (Array.isArray(message.content)) {
-          for (const block of message.content) {
-            if (block.type === 'text' && block.text) {
-              totalTokens += Math.ceil(block.text.length / 4);
-            }
-          }
-        }
-      }
-    }
-    
-    // Count tokens from system prompt
-    if (body.system) {
-      if (typeof body.system === 'string') {
-        totalTokens += Math.ceil(body.system.length / 4);
-      }
-    }
-    
-    // Count tokens from tools (tool definitions)
-    if (body.tools) {
-      for (const tool of body.tools) {
-        const toolText = JSON.stringify(tool);
-        totalTokens += Math.ceil(toolText.length / 4);
-      }
-    }
+
+    // Same estimate the usage block of /v1/messages reports
+    const totalTokens = estimateInputTokens(body);
     
     return reply.send({
       input_tokens: totalTokens
     });
   });
 
+  // Model catalog: Anthropic shape for Anthropic clients (anthropic-version header), OpenAI shape otherwise.
+  // ?format=anthropic|openai overrides the detection.
+  function modelFormat(req: FastifyRequest): ErrorFormat {
+    const format = (req.query as any)?.format;
+    if (format === 'anthropic' || format === 'openai') return format;
+    return req.headers['anthropic-version'] ? 'anthropic' : 'openai';
+  }
+
+  fastify.get("/v1/models", async (req, reply) => {
+    const format = modelFormat(req);
+    const all = models.list();
+
+    if (format === 'openai') {
+      return reply.send({ object: "list", data: all.map(toOpenAIModel) });
+    }
+
+    const query = req.query as { limit?: string; after_id?: string; before_id?: string };
+    const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 1000);
+    let start = 0;
+    let end = all.length;
+    if (query.after_id) start = all.findIndex(m => m.id === query.after_id) + 1;
+    if (query.before_id) end = Math.max(0, all.findIndex(m => m.id === query.before_id));
+    if (query.before_id) start = Math.max(start, end - limit);
+    const page = all.slice(start, Math.min(end, start + limit));
+
+    return reply.send({
+      data: page.map(toAnthropicModel),
+      has_more: start + page.length < end,
+      first_id: page[0]?.id ?? null,
+      last_id: page[page.length - 1]?.id ?? null
+    });
+  });
+
+  fastify.get("/v1/models/:model_id", async (req, reply) => {
+    const format = modelFormat(req);
+    const model = models.get((req.params as { model_id: string }).model_id);
+    if (!model) {
+      const modelId = (req.params as { model_id: string }).model_id;
+      return sendError(reply, new BridgeError("not_found_error", `model: ${modelId}`, 404), format);
+    }
+    return reply.send(format === 'openai' ? toOpenAIModel(model) : toAnthropicModel(model));
+  });
+
   fastify.get("/healthz", async () => {
     return { status: "ok", toqan_base: process.env.TOQAN_BASE_URL || "" };
   });
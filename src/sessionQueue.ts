@@ -0,0 +1,155 @@
+/**
+ * Session Queue for Toqan AI Bridge
+ *
+ * Redis-backed FIFO of the turns waiting on each client session, so turns of one
+ * session run strictly one after another across every bridge replica. A turn holds
+ * a lease while it waits and while it runs; the lease is renewed in the background,
+ * so long polls keep their place, and a turn whose replica died is dropped once its
+ * lease expires. A full queue, or a wait past the limit, is answered with a 429.
+ */
+
+import type Redis from 'ioredis';
+import crypto from 'crypto';
+import { BridgeError, DEFAULT_RETRY_AFTER } from './errors';
+
+export const QUEUE_PREFIX = "toqan:queue:";
+
+export interface SessionQueueOptions {
+  /** Turns a session may have running or waiting */
+  maxQueued?: number;
+  /** Milliseconds a turn may wait for the ones ahead of it */
+  maxWait?: number;
+  /** Milliseconds a lease lives without being renewed */
+  leaseTtl?: number;
+  /** Milliseconds between checks of the queue head */
+  pollInterval?: number;
+}
+
+/**
+ * A session's turn at the head of its queue
+ */
+export interface SessionLease {
+  sessionId: string;
+  ticket: string;
+  /** Leave the queue, letting the next turn run */
+  release(): Promise<void>;
+}
+
+/**
+ * Session queue class
+ */
+export class SessionQueue {
+  private redis: Redis;
+  private options: Required<SessionQueueOptions>;
+
+  constructor(redis: Redis, options: SessionQueueOptions = {}) {
+    this.redis = redis;
+    this.options = {
+      maxQueued: options.maxQueued ?? 8,
+      maxWait: options.maxWait ?? 120000,
+      leaseTtl: options.leaseTtl ?? 30000,
+      pollInterval: options.pollInterval ?? 100
+    };
+  }
+
+  /**
+   * Wait until every earlier turn of the session has finished. Throws a 429
+   * rate_limit_error when the queue is full or the wait limit is reached.
+   */
+  public async acquire(sessionId: string): Promise<SessionLease> {
+    const queueKey = QUEUE_PREFIX + sessionId;
+    const ticket = crypto.randomBytes(8).toString('hex');
+    const leaseKey = this.leaseKey(sessionId, ticket);
+
+    await this.redis.set(leaseKey, '1', 'PX', this.options.leaseTtl);
+    let length = await this.redis.rpush(queueKey, ticket);
+    await this.redis.pexpire(queueKey, this.options.maxWait + this.options.leaseTtl);
+    if (length > this.options.maxQueued) {
+      // Turns of crashed replicas may still hold places; make room before giving up
+      length -= await this.pruneExpired(sessionId);
+    }
+    if (length > this.options.maxQueued) {
+      await this.leave(sessionId, ticket);
+      throw this.busy(`Session ${sessionId} already has ${this.options.maxQueued} turns in progress or waiting`);
+    }
+
+    const renewal = setInterval(() => {
+      this.redis.multi()
+        .pexpire(leaseKey, this.options.leaseTtl)
+        .pexpire(queueKey, this.options.maxWait + this.options.leaseTtl)
+        .exec()
+        .catch(error => console.warn(`⚠️ Could not renew the lease of ${sessionId}:`, error.message));
+    }, Math.max(10, Math.floor(this.options.leaseTtl / 3)));
+    renewal.unref();
+
+    const lease: SessionLease = {
+      sessionId,
+      ticket,
+      release: async () => {
+        clearInterval(renewal);
+        await this.leave(sessionId, ticket);
+      }
+    };
+
+    try {
+      const deadline = Date.now() + this.options.maxWait;
+      while (true) {
+        const head = await this.redis.lindex(queueKey, 0);
+        if (head === ticket) return lease;
+
+        if (head && !(await this.redis.exists(this.leaseKey(sessionId, head)))) {
+          console.warn(`⚠️ Dropping expired turn ${head} of session ${sessionId}`);
+          await this.redis.lrem(queueKey, 1, head);
+          continue;
+        }
+
+        if (Date.now() >= deadline) {
+          throw this.busy(`Timed out after ${Math.round(this.options.maxWait / 1000)}s waiting for earlier turns of session ${sessionId}`);
+        }
+        await new Promise((res) => setTimeout(res, this.options.pollInterval));
+      }
+    } catch (error) {
+      await lease.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Run fn as the session's next turn
+   */
+  public async run<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+    const lease = await this.acquire(sessionId);
+    try {
+      return await fn();
+    } finally {
+      await lease.release();
+    }
+  }
+
+  private async leave(sessionId: string, ticket: string): Promise<void> {
+    await this.redis.multi()
+      .lrem(QUEUE_PREFIX + sessionId, 1, ticket)
+      .del(this.leaseKey(sessionId, ticket))
+      .exec();
+  }
+
+  // Remove the turns whose lease expired; returns how many were removed
+  private async pruneExpired(sessionId: string): Promise<number> {
+    const tickets = await this.redis.lrange(QUEUE_PREFIX + sessionId, 0, -1);
+    let removed = 0;
+    for (const ticket of tickets) {
+      if (!(await this.redis.exists(this.leaseKey(sessionId, ticket)))) {
+        removed += await this.redis.lrem(QUEUE_PREFIX + sessionId, 1, ticket);
+      }
+    }
+    return removed;
+  }
+
+  private leaseKey(sessionId: string, ticket: string): string {
+    return `${QUEUE_PREFIX}${sessionId}:${ticket}`;
+  }
+
+  private busy(message: string): BridgeError {
+    return new BridgeError('rate_limit_error', message, 429, DEFAULT_RETRY_AFTER);
+  }
+}
@@ -0,0 +1,603 @@
+/**
+ * Session Store for Toqan AI Bridge
+ *
+ * Redis-backed mapping between client sessions and Toqan conversations,
+ * plus the per-conversation metadata record (toqan:meta:<conversation_id>)
+ * with turn, token and strategy totals behind the /v1/sessions views.
+ * A session's activity key, history and fork log, and the metadata and attachment
+ * sets of its conversations, carry a TTL that every turn refreshes; once a session
+ * has been idle for SESSION_IDLE_TTL_SECONDS its mapping, name and index entry are
+ * dropped and the next turn replays the history into a new conversation.
+ */
+
+import type Redis from 'ioredis';
+import crypto from 'crypto';
+import { AnthropicMessage, AnthropicRequest, ContentBlock } from './types';
+
+export const MAP_KEY = "toqan:conv_map";
+export const META_PREFIX = "toqan:meta:";
+export const HISTORY_PREFIX = "toqan:history:";
+export const FORK_PREFIX = "toqan:forks:";
+export const ATTACHMENTS_PREFIX = "toqan:attachments:";
+export const SEEN_ATTACHMENTS_PREFIX = "toqan:seen_attachments:";
+export const SESSION_INDEX_KEY = "toqan:sessions";
+export const SESSION_NAMES_KEY = "toqan:session_names";
+export const ACTIVE_PREFIX = "toqan:active:";
+
+/** Seconds without a turn after which a session's conversation is forgotten */
+const SESSION_IDLE_TTL = Number(process.env.SESSION_IDLE_TTL_SECONDS || 24 * 60 * 60);
+
+/** Member of a seen-attachments set telling that it covers every older attachment */
+const ATTACHMENTS_PRIMED = "*";
+
+export interface SessionMeta {
+  /** ISO timestamp of conversation creation */
+  created_at: string;
+  /** Client session mapped to this conversation */
+  sessionId: string;
+  /** Strategy used for the last request */
+  strategy?: string;
+  /** Hash of the system prompt last sent to Toqan */
+  system_hash?: string;
+  /** Hash of the tool catalog last sent to Toqan in full */
+  tools_hash?: string;
+  /** ISO timestamp of the last update */
+  updated_at?: string;
+  /** ISO timestamp of when the session forked away from this conversation */
+  forked_at?: string;
+  /** Turns answered in this conversation */
+  turns?: number;
+  /** Tokens sent to and received from Toqan in this conversation */
+  input_tokens?: number;
+  output_tokens?: number;
+  /** Strategies used, one entry each time the strategy changed */
+  strategy_history?: StrategyChange[];
+  /** Conversation this one continues from a summary of, after a rotation */
+  rotated_from?: string;
+  /** ISO timestamp of when the session rotated away from this conversation */
+  rotated_at?: string;
+}
+
+export interface StrategyChange {
+  strategy: string;
+  /** Turn the strategy was first used on */
+  turn: number;
+  at: string;
+}
+
+/** Session as returned by the /v1/sessions API */
+export interface SessionView {
+  id: string;
+  type: 'session';
+  name: string | null;
+  conversation_id: string;
+  created_at: string | null;
+  updated_at: string | null;
+  turns: number;
+  usage: { input_tokens: number; output_tokens: number };
+  strategy: string | null;
+  strategy_history: StrategyChange[];
+  /** Conversations the session forked away from, oldest first */
+  forks: ForkRecord[];
+}
+
+export interface ForkRecord {
+  /** Conversation the session was mapped to before the fork */
+  conversationId: string;
+  /**
+   * Why the session left it: the client history diverged (default), the conversation used up
+   * its token budget, or a turn too large to send was chunked into a conversation of its own
+   */
+  reason?: 'rotated' | 'oversized';
+  /** Index of the first client message that no longer matched, or that went to the next conversation */
+  divergedAt: number;
+  /** ISO timestamp of the fork */
+  forked_at: string;
+}
+
+/**
+ * Stable sha256 hash used to compare prompts and messages across turns
+ */
+export function hashContent(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Stable representation of message content. Volatile fields such as cache_control are
+ * dropped and text-only block arrays collapse to a string, so the same turn hashes the
+ * same whether the client sent it as a string or as blocks.
+ */
+export function normalizeContent(content: string | ContentBlock[] | any[] | undefined): any {
+  if (typeof content === 'string') return content.trim();
+  if (!Array.isArray(content)) return content ?? '';
+
+  // Reasoning is never sent to Toqan, and clients may drop it from older turns
+  content = content.filter(block => block?.type !== 'thinking' && block?.type !== 'redacted_thinking');
+
+  if (content.every(block => typeof block === 'string' || block?.type === 'text')) {
+    return content.map(block => typeof block === 'string' ? block : block.text || '').join('\n').trim();
+  }
+
+  return content.map(block => {
+    switch (block.type) {
+      case 'text':
+        return { type: 'text', text: (block.text || '').trim() };
+      case 'tool_use':
+        return { type: 'tool_use', id: block.id, name: block.name, input: block.input ?? {} };
+      case 'tool_result':
+        return { type: 'tool_result', tool_use_id: block.tool_use_id, content: normalizeContent(block.content) };
+      default:
+        return {
+          type: block.type,
+          source: block.source?.data ? hashContent(block.source.data) : block.source?.file_id
+        };
+    }
+  });
+}
+
+/**
+ * Hash of a single message, used to detect when client history stops matching Toqan's
+ */
+export function hashMessage(message: Pick<AnthropicMessage, 'role' | 'content'>): string {
+  return hashContent({ role: message.role, content: normalizeContent(message.content) });
+}
+
+/**
+ * Derive a session ID that stays the same across turns of one chat.
+ *
+ * Precedence: explicit conversation_id, then the x-session-id header, then a
+ * fingerprint of metadata.user_id, the system prompt, the leading message and,
+ * once the chat has one, the first reply.
+ */
+export function resolveSessionId(
+  body: AnthropicRequest,
+  headers: Record<string, string | string[] | undefined>,
+  prefix: string
+): string {
+  if (body.conversation_id) return body.conversation_id;
+
+  const headerId = headers['x-session-id'];
+  if (typeof headerId === 'string' && headerId.trim()) return headerId.trim();
+
+  return `${prefix}-${sessionFingerprint(body)}`;
+}
+
+/**
+ * The ID the next turn of a fingerprinted chat resolves to once its opening turn is answered.
+ * Chats that open with the same message tell apart by their replies from then on, which
+ * frees the opener's ID for the next chat. Other session IDs are returned unchanged.
+ */
+export function followUpSessionId(sessionId: string, body: AnthropicRequest, replyContent: string | any[]): string {
+  const messages = body.messages || [];
+  const fingerprint = sessionFingerprint(body);
+  if (messages.some(message => message.role === 'assistant') || !sessionId.endsWith(`-${fingerprint}`)) return sessionId;
+
+  const answered = sessionFingerprint({ ...body, messages: [...messages, { role: 'assistant', content: replyContent }] });
+  return sessionId.slice(0, -fingerprint.length) + answered;
+}
+
+function sessionFingerprint(body: AnthropicRequest): string {
+  const messages = body.messages || [];
+  const firstMessage = messages[0];
+  const firstReply = messages.find(message => message.role === 'assistant');
+  const fingerprint = hashContent({
+    system: normalizeContent(body.system),
+    first: firstMessage ? { role: firstMessage.role, content: normalizeContent(firstMessage.content) } : null,
+    ...(firstReply ? { reply: normalizeContent(firstReply.content) } : {})
+  }).slice(0, 24);
+  const userId = body.metadata?.user_id;
+  const owner = userId ? hashContent(String(userId)).slice(0, 12) : 'anon';
+
+  return `${owner}-${fingerprint}`;
+}
+
+/**
+ * Session store class
+ */
+export class SessionStore {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  /**
+   * Get the Toqan conversation mapped to a session, or null once the session has been idle too long
+   */
+  public async getConversationId(sessionId: string): Promise<string | null> {
+    const conversationId = await this.redis.hget(MAP_KEY, sessionId);
+    if (!conversationId || await this.redis.exists(ACTIVE_PREFIX + sessionId)) return conversationId;
+
+    // Sessions mapped before activity keys existed are judged by their conversation meta
+    const updatedAt = (await this.getMeta(conversationId))?.updated_at;
+    if (!updatedAt || Date.now() - Date.parse(updatedAt) < SESSION_IDLE_TTL * 1000) {
+      await this.touch(sessionId);
+      return conversationId;
+    }
+
+    await this.expireSession(sessionId);
+    return null;
+  }
+
+  /**
+   * Map a session to a Toqan conversation
+   */
+  public async mapConversation(sessionId: string, conversationId: string): Promise<void> {
+    await this.pruneIdleSessions();
+    await this.redis.hset(MAP_KEY, sessionId, conversationId);
+    // Whatever Toqan attaches to the conversation from here on belongs to this session's turns
+    await this.primeAttachments(conversationId, []);
+    await this.redis.zadd(SESSION_INDEX_KEY, Date.now(), sessionId);
+    await this.touch(sessionId);
+  }
+
+  /**
+   * Restart the idle TTL of a session's keys
+   */
+  public async touch(sessionId: string): Promise<void> {
+    const conversationId = await this.redis.hget(MAP_KEY, sessionId);
+    const forks = await this.getForks(sessionId);
+    const refresh = this.redis.multi()
+      .set(ACTIVE_PREFIX + sessionId, '1', 'EX', SESSION_IDLE_TTL)
+      .expire(HISTORY_PREFIX + sessionId, SESSION_IDLE_TTL)
+      .expire(FORK_PREFIX + sessionId, SESSION_IDLE_TTL);
+    // The session view totals the metas of earlier conversations too
+    for (const fork of forks) refresh.expire(META_PREFIX + fork.conversationId, SESSION_IDLE_TTL);
+    if (conversationId) {
+      refresh
+        .expire(META_PREFIX + conversationId, SESSION_IDLE_TTL)
+        .expire(ATTACHMENTS_PREFIX + conversationId, SESSION_IDLE_TTL)
+        .expire(SEEN_ATTACHMENTS_PREFIX + conversationId, SESSION_IDLE_TTL);
+    }
+    await refresh.exec();
+  }
+
+  /**
+   * Read the metadata record of a conversation
+   */
+  public async getMeta(conversationId: string): Promise<SessionMeta | null> {
+    const raw = await this.redis.get(META_PREFIX + conversationId);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as SessionMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Merge fields into the metadata record, creating it if missing
+   */
+  public async updateMeta(
+    conversationId: string,
+    sessionId: string,
+    patch: Partial<SessionMeta> = {}
+  ): Promise<SessionMeta> {
+    const now = new Date().toISOString();
+    const existing = await this.getMeta(conversationId);
+    const meta: SessionMeta = {
+      created_at: now,
+      ...existing,
+      ...patch,
+      sessionId,
+      updated_at: now
+    };
+
+    await this.redis.set(META_PREFIX + conversationId, JSON.stringify(meta), 'EX', SESSION_IDLE_TTL);
+    return meta;
+  }
+
+  /**
+   * Count an answered turn on the conversation: tokens, and the strategy when it changed
+   */
+  public async recordTurn(
+    conversationId: string,
+    sessionId: string,
+    turn: { input_tokens: number; output_tokens: number; strategy: string }
+  ): Promise<SessionMeta> {
+    const meta = await this.getMeta(conversationId);
+    const turns = (meta?.turns || 0) + 1;
+    const history = meta?.strategy_history || [];
+    const strategyChanged = history[history.length - 1]?.strategy !== turn.strategy;
+
+    const updated = await this.updateMeta(conversationId, sessionId, {
+      turns,
+      input_tokens: (meta?.input_tokens || 0) + turn.input_tokens,
+      output_tokens: (meta?.output_tokens || 0) + turn.output_tokens,
+      strategy: turn.strategy,
+      strategy_history: strategyChanged
+        ? [...history, { strategy: turn.strategy, turn: turns, at: new Date().toISOString() }]
+        : history
+    });
+    await this.redis.zadd(SESSION_INDEX_KEY, Date.now(), sessionId);
+    await this.touch(sessionId);
+    return updated;
+  }
+
+  /**
+   * A session with its current conversation and totals across its forks, or null
+   * when the session has no conversation
+   */
+  public async getSession(sessionId: string): Promise<SessionView | null> {
+    const conversationId = await this.getConversationId(sessionId);
+    if (!conversationId) return null;
+
+    const [meta, forks, name] = await Promise.all([
+      this.getMeta(conversationId),
+      this.getForks(sessionId),
+      this.redis.hget(SESSION_NAMES_KEY, sessionId)
+    ]);
+    const forkMetas = await Promise.all(forks.map(fork => this.getMeta(fork.conversationId)));
+    const metas = [...forkMetas, meta].filter((entry): entry is SessionMeta => !!entry);
+
+    return {
+      id: sessionId,
+      type: 'session',
+      name,
+      conversation_id: conversationId,
+      created_at: metas[0]?.created_at ?? null,
+      updated_at: meta?.updated_at ?? null,
+      turns: metas.reduce((total, entry) => total + (entry.turns || 0), 0),
+      usage: {
+        input_tokens: metas.reduce((total, entry) => total + (entry.input_tokens || 0), 0),
+        output_tokens: metas.reduce((total, entry) => total + (entry.output_tokens || 0), 0)
+      },
+      strategy: meta?.strategy ?? null,
+      strategy_history: metas.flatMap(entry => entry.strategy_history || []),
+      forks
+    };
+  }
+
+  /**
+   * Sessions, most recently active first. afterId / beforeId page relative to a session in that order.
+   */
+  public async listSessions(limit: number, afterId?: string, beforeId?: string): Promise<{ data: SessionView[]; has_more: boolean }> {
+    await this.pruneIdleSessions();
+
+    // Sessions mapped before the index existed are listed after the indexed ones
+    const mapped = await this.redis.hkeys(MAP_KEY);
+    if (mapped.length > 0) {
+      await this.redis.zadd(SESSION_INDEX_KEY, 'NX', ...mapped.flatMap(sessionId => [0, sessionId]));
+    }
+
+    const ids = await this.redis.zrevrange(SESSION_INDEX_KEY, 0, -1);
+    let start = 0;
+    let end = ids.length;
+    if (afterId) start = ids.indexOf(afterId) + 1;
+    if (beforeId) end = Math.max(0, ids.indexOf(beforeId));
+    if (beforeId) start = Math.max(start, end - limit);
+
+    const data: SessionView[] = [];
+    let next = start;
+    for (; next < end && data.length < limit; next++) {
+      const session = await this.getSession(ids[next]);
+      if (session) {
+        data.push(session);
+      } else {
+        await this.redis.zrem(SESSION_INDEX_KEY, ids[next]);
+      }
+    }
+
+    return { data, has_more: next < end };
+  }
+
+  /**
+   * Name a session
+   */
+  public async renameSession(sessionId: string, name: string): Promise<void> {
+    await this.redis.hset(SESSION_NAMES_KEY, sessionId, name);
+  }
+
+  /**
+   * Move a session to another ID: its mapping, history, fork log, name and index entry.
+   * Returns false, leaving both alone, when the target ID already has a conversation.
+   */
+  public async moveSession(sessionId: string, nextSessionId: string): Promise<boolean> {
+    const conversationId = await this.redis.hget(MAP_KEY, sessionId);
+    if (!conversationId || await this.redis.hexists(MAP_KEY, nextSessionId)) return false;
+
+    const name = await this.redis.hget(SESSION_NAMES_KEY, sessionId);
+    const history = await this.redis.get(HISTORY_PREFIX + sessionId);
+    const forks = await this.redis.lrange(FORK_PREFIX + sessionId, 0, -1);
+
+    const move = this.redis.multi()
+      .hset(MAP_KEY, nextSessionId, conversationId)
+      .del(HISTORY_PREFIX + nextSessionId, FORK_PREFIX + nextSessionId)
+      .hdel(MAP_KEY, sessionId)
+      .del(HISTORY_PREFIX + sessionId, FORK_PREFIX + sessionId, ACTIVE_PREFIX + sessionId)
+      .hdel(SESSION_NAMES_KEY, sessionId)
+      .zrem(SESSION_INDEX_KEY, sessionId)
+      .zadd(SESSION_INDEX_KEY, Date.now(), nextSessionId);
+    if (history) move.set(HISTORY_PREFIX + nextSessionId, history);
+    if (forks.length > 0) move.rpush(FORK_PREFIX + nextSessionId, ...forks);
+    if (name) move.hset(SESSION_NAMES_KEY, nextSessionId, name);
+    await move.exec();
+
+    await this.updateMeta(conversationId, nextSessionId);
+    await this.touch(nextSessionId);
+    return true;
+  }
+
+  /**
+   * Drop a session's conversation mapping so its next turn starts a new conversation.
+   * Conversation metadata is kept.
+   */
+  public async resetSession(sessionId: string): Promise<void> {
+    await this.redis.multi()
+      .hdel(MAP_KEY, sessionId)
+      .del(HISTORY_PREFIX + sessionId, FORK_PREFIX + sessionId, ACTIVE_PREFIX + sessionId)
+      .hdel(SESSION_NAMES_KEY, sessionId)
+      .zrem(SESSION_INDEX_KEY, sessionId)
+      .exec();
+  }
+
+  /**
+   * Remove every trace of a single-use session: its mapping, history, fork log, index entry,
+   * and the metadata and attachment sets of its conversations
+   */
+  public async discardSession(sessionId: string): Promise<void> {
+    const conversationId = await this.redis.hget(MAP_KEY, sessionId);
+    const forks = await this.getForks(sessionId);
+    const conversationIds = [...forks.map(fork => fork.conversationId), ...(conversationId ? [conversationId] : [])];
+
+    await this.resetSession(sessionId);
+    if (conversationIds.length === 0) return;
+    await this.redis.del(...conversationIds.flatMap(id => [
+      META_PREFIX + id,
+      ATTACHMENTS_PREFIX + id,
+      SEEN_ATTACHMENTS_PREFIX + id
+    ]));
+  }
+
+  /**
+   * Drop the live mapping, history hashes, activity key, name and index entry of an idle
+   * session. Conversation metas and the fork log are left to their own TTL.
+   */
+  public async expireSession(sessionId: string): Promise<void> {
+    await this.redis.multi()
+      .hdel(MAP_KEY, sessionId)
+      .del(HISTORY_PREFIX + sessionId, ACTIVE_PREFIX + sessionId)
+      .hdel(SESSION_NAMES_KEY, sessionId)
+      .zrem(SESSION_INDEX_KEY, sessionId)
+      .exec();
+  }
+
+  /**
+   * Expire indexed sessions without a turn for longer than the idle TTL, a page at a time.
+   * Index entries of sessions that no longer have a conversation are removed as well.
+   */
+  private async pruneIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - SESSION_IDLE_TTL * 1000;
+    const idle = await this.redis.zrangebyscore(SESSION_INDEX_KEY, '-inf', cutoff, 'LIMIT', 0, 100);
+    for (const sessionId of idle) {
+      // Sessions backfilled from the map are judged by their conversation meta
+      if (!(await this.getConversationId(sessionId))) await this.redis.zrem(SESSION_INDEX_KEY, sessionId);
+    }
+  }
+
+  /**
+   * Hashes of the messages Toqan has seen for a session, in order
+   */
+  public async getMessageHashes(sessionId: string): Promise<string[]> {
+    const raw = await this.redis.get(HISTORY_PREFIX + sessionId);
+    if (!raw) return [];
+
+    try {
+      const hashes = JSON.parse(raw);
+      return Array.isArray(hashes) ? hashes : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Replace the message hashes recorded for a session
+   */
+  public async setMessageHashes(sessionId: string, hashes: string[]): Promise<void> {
+    await this.redis.set(HISTORY_PREFIX + sessionId, JSON.stringify(hashes), 'EX', SESSION_IDLE_TTL);
+  }
+
+  /**
+   * Detach a session from its conversation so the next turn opens a new one.
+   * The old mapping is kept in the session's fork log and on the conversation meta.
+   */
+  public async forkSession(
+    sessionId: string,
+    conversationId: string,
+    divergedAt: number,
+    reason?: ForkRecord['reason']
+  ): Promise<ForkRecord> {
+    const record: ForkRecord = {
+      conversationId,
+      ...(reason ? { reason } : {}),
+      divergedAt,
+      forked_at: new Date().toISOString()
+    };
+
+    await this.redis.rpush(FORK_PREFIX + sessionId, JSON.stringify(record));
+    await this.updateMeta(conversationId, sessionId, { forked_at: record.forked_at });
+    await this.redis.hdel(MAP_KEY, sessionId);
+    await this.redis.del(HISTORY_PREFIX + sessionId);
+    return record;
+  }
+
+  /**
+   * Move a session to a conversation seeded with a summary of its current one. The message
+   * hashes are kept, since the new conversation carries on the same client history.
+   */
+  public async rotateConversation(sessionId: string, conversationId: string, nextConversationId: string): Promise<ForkRecord> {
+    const record: ForkRecord = {
+      conversationId,
+      reason: 'rotated',
+      divergedAt: (await this.getMessageHashes(sessionId)).length,
+      forked_at: new Date().toISOString()
+    };
+
+    await this.redis.rpush(FORK_PREFIX + sessionId, JSON.stringify(record));
+    await this.updateMeta(conversationId, sessionId, { rotated_at: record.forked_at });
+    await this.mapConversation(sessionId, nextConversationId);
+    return record;
+  }
+
+  /**
+   * Toqan file ids already attached to a conversation
+   */
+  public async getAttachedFiles(conversationId: string): Promise<string[]> {
+    return this.redis.smembers(ATTACHMENTS_PREFIX + conversationId);
+  }
+
+  /**
+   * Record files attached to a conversation
+   */
+  public async addAttachedFiles(conversationId: string, fileIds: string[]): Promise<void> {
+    if (fileIds.length === 0) return;
+    await this.redis.multi()
+      .sadd(ATTACHMENTS_PREFIX + conversationId, ...fileIds)
+      .expire(ATTACHMENTS_PREFIX + conversationId, SESSION_IDLE_TTL)
+      .exec();
+  }
+
+  /**
+   * Attachments of Toqan replies already returned to the client (or skipped) for a conversation
+   */
+  public async getSeenAttachments(conversationId: string): Promise<string[]> {
+    return this.redis.smembers(SEEN_ATTACHMENTS_PREFIX + conversationId);
+  }
+
+  /**
+   * Mark an attachment of a Toqan reply as returned to the client
+   */
+  public async markAttachmentSeen(conversationId: string, attachmentKey: string): Promise<void> {
+    await this.redis.multi()
+      .sadd(SEEN_ATTACHMENTS_PREFIX + conversationId, attachmentKey)
+      .expire(SEEN_ATTACHMENTS_PREFIX + conversationId, SESSION_IDLE_TTL)
+      .exec();
+  }
+
+  /**
+   * Whether the seen attachments of a conversation cover everything attached before the current turn
+   */
+  public async attachmentsPrimed(conversationId: string): Promise<boolean> {
+    return (await this.redis.sismember(SEEN_ATTACHMENTS_PREFIX + conversationId, ATTACHMENTS_PRIMED)) === 1;
+  }
+
+  /**
+   * Mark the attachments a conversation already has as seen, so only later ones are returned
+   */
+  public async primeAttachments(conversationId: string, attachmentKeys: string[]): Promise<void> {
+    await this.redis.multi()
+      .sadd(SEEN_ATTACHMENTS_PREFIX + conversationId, ATTACHMENTS_PRIMED, ...attachmentKeys)
+      .expire(SEEN_ATTACHMENTS_PREFIX + conversationId, SESSION_IDLE_TTL)
+      .exec();
+  }
+
+  /**
+   * Previous conversations of a session, oldest first
+   */
+  public async getForks(sessionId: string): Promise<ForkRecord[]> {
+    const entries = await this.redis.lrange(FORK_PREFIX + sessionId, 0, -1);
+    return entries.map(entry => JSON.parse(entry) as ForkRecord);
+  }
+}
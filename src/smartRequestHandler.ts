@@ -13,6 +13,7 @@ import { ChunkingService, chunkText, calculateOptimalChunkSize } from './chunkin
 import { FileUploadService, uploadTextAsFile, shouldUseFileUpload } from './fileUploadService';
 import { smartEstimateTokens, getRecommendedStrategy } from './utils/tokenEstimation';
 import { ProgressCallback, ProgressUpdate } from './progressStreamManager';
+import { Checkpoint, CheckpointStore, requestFingerprint } from './checkpointStore';
 
 export interface SmartRequestOptions {
   /** Force a specific strategy instead of auto-detection */
@@ -29,6 +30,12 @@ export interface SmartRequestOptions {
   fileUploadOptions?: Parameters<typeof uploadTextAsFile>[1];
   /** Progress callback for streaming updates */
   progressCallback?: ProgressCallback;
+  /** Called with each processing step as soon as it is recorded */
+  onProcessingStep?: (step: ProcessingStep) => void;
+  /** Where chunked and hybrid requests checkpoint their progress */
+  checkpoints?: CheckpointStore;
+  /** Toqan files attached to the message that opens the conversation */
+  files?: { id: string }[];
 }
 
 export interface SmartRequestResult {
@@ -65,12 +72,27 @@ export interface ProcessingStep {
   requestId?: string;
 }
 
+/**
+ * Failure of a smart request, with the checkpoint a retry or resume continues from
+ */
+export class SmartRequestError extends Error {
+  public readonly checkpointId?: string;
+
+  constructor(message: string, checkpointId?: string) {
+    super(message);
+    this.name = 'SmartRequestError';
+    this.checkpointId = checkpointId;
+  }
+}
+
 /**
  * Smart request handler class
  */
 export class SmartRequestHandler {
-  private options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback'>> 
-    & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback'>;
+  /** Per-request listeners, keyed by the request's processing step list */
+  private stepListeners: WeakMap<ProcessingStep[], (step: ProcessingStep) => void> = new WeakMap();
+  private options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>> 
+    & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>;
 
   constructor(options: SmartRequestOptions = {}) {
     this.options = {
@@ -80,7 +102,10 @@ export class SmartRequestHandler {
       sessionId: options.sessionId,
       chunkingOptions: options.chunkingOptions,
       fileUploadOptions: options.fileUploadOptions,
-      progressCallback: options.progressCallback
+      progressCallback: options.progressCallback,
+      onProcessingStep: options.onProcessingStep,
+      checkpoints: options.checkpoints,
+      files: options.files
     };
   }
 
@@ -95,6 +120,18 @@ export class SmartRequestHandler {
     const startTime = Date.now();
     const processingSteps: ProcessingStep[] = [];
     const totalInputTokens = smartEstimateTokens(message);
+    let checkpointId: string | undefined;
+
+    // Report every step as it happens, to the step listener and as a progress update
+    this.stepListeners.set(processingSteps, (step) => {
+      mergedOptions.onProcessingStep?.(step);
+      this.sendProgress(mergedOptions.progressCallback, {
+        type: step.success ? 'progress' : 'error',
+        message: step.error ? `${step.step}: ${step.error}` : step.step,
+        step: 'processing_step',
+        additionalData: step
+      });
+    });
 
     try {
       // Determine strategy
@@ -114,6 +151,11 @@ export class SmartRequestHandler {
         additionalInfo: `Selected strategy: ${strategy}`
       });
 
+      // Chunked work is checkpointed so a retry continues where this attempt stopped
+      if (mergedOptions.checkpoints && (strategy === 'chunks' || strategy === 'hybrid')) {
+        checkpointId = requestFingerprint(message, strategy, mergedOptions.sessionId);
+      }
+
       // Execute based on strategy
       let result: SmartRequestResult;
 
@@ -122,22 +164,31 @@ export class SmartRequestHandler {
           result = await this.handleDirectRequest(message, mergedOptions, processingSteps);
           break;
         case 'chunks':
-          result = await this.handleChunkedRequest(message, mergedOptions, processingSteps);
+          result = await this.handleChunkedRequest(message, mergedOptions, processingSteps, checkpointId);
           break;
         case 'file':
           result = await this.handleFileRequest(message, mergedOptions, processingSteps);
           break;
         case 'hybrid':
-          result = await this.handleHybridRequest(message, mergedOptions, processingSteps);
+          result = await this.handleHybridRequest(message, mergedOptions, processingSteps, checkpointId);
           break;
         default:
           throw new Error(`Unknown strategy: ${strategy}`);
       }
 
       result.totalTime = Date.now() - startTime;
-      result.totalInputTokens = totalInputTokens;
+      // Strategies report what they actually sent (chunk framing, follow-up prompts)
+      result.totalInputTokens = result.totalInputTokens || totalInputTokens;
       result.processingSteps = processingSteps;
 
+      if (checkpointId) await mergedOptions.checkpoints!.clear(checkpointId);
+
+      this.sendProgress(mergedOptions.progressCallback, {
+        type: 'complete',
+        message: `Processamento concluído com estratégia: ${result.strategy}`,
+        step: 'complete'
+      });
+
       return result;
 
     } catch (error) {
@@ -145,7 +196,7 @@ export class SmartRequestHandler {
         error: (error as Error).message
       });
       
-      throw new Error(`Smart request handling failed: ${(error as Error).message}`);
+      throw new SmartRequestError(`Smart request handling failed: ${(error as Error).message}`, checkpointId);
     }
   }
 
@@ -154,14 +205,14 @@ export class SmartRequestHandler {
    */
   private async handleDirectRequest(
     message: string,
-    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>> 
-      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>,
+    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>> 
+      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>,
     steps: ProcessingStep[]
   ): Promise<SmartRequestResult> {
     const stepStart = Date.now();
     
     try {
-      const createResponse = await createConversation(message);
+      const createResponse = await createConversation(message, options.files);
       
       this.addProcessingStep(steps, 'Create Conversation', stepStart, Date.now() - stepStart, true, {
         conversationId: createResponse.conversation_id,
@@ -180,7 +231,7 @@ export class SmartRequestHandler {
         requestId: createResponse.request_id,
         strategy: 'direct',
         answer,
-        totalInputTokens: 0, // Will be set by caller
+        totalInputTokens: smartEstimateTokens(message),
         totalResponseTokens: smartEstimateTokens(answer),
         totalTime: 0, // Will be set by caller
         processingSteps: []
@@ -199,9 +250,10 @@ export class SmartRequestHandler {
    */
   private async handleChunkedRequest(
     message: string,
-    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback'>> 
-      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback'>,
-    steps: ProcessingStep[]
+    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>> 
+      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>,
+    steps: ProcessingStep[],
+    checkpointId?: string
   ): Promise<SmartRequestResult> {
     const stepStart = Date.now();
     
@@ -218,23 +270,31 @@ export class SmartRequestHandler {
         throw new Error('No chunks generated from message');
       }
 
-      let conversationId: string | undefined;
+      const checkpoint = await this.resumeCheckpoint(checkpointId, message, {
+        strategy: 'chunks',
+        sessionId: options.sessionId,
+        totalChunks: chunks.length
+      }, options, steps);
+
+      let conversationId: string | undefined = checkpoint?.conversationId;
       let lastRequestId: string | undefined;
-      let totalResponseTokens = 0;
+      let totalInputTokens = checkpoint?.inputTokens ?? 0;
+      let totalResponseTokens = checkpoint?.responseTokens ?? 0;
 
-      // Process each chunk
-      for (const chunk of chunks) {
+      // Process each chunk not answered yet
+      for (const chunk of chunks.slice(checkpoint?.completedChunks ?? 0)) {
         const chunkStart = Date.now();
         let response;
 
+        const chunkMessage = this.formatChunkMessage(chunk, message);
+        totalInputTokens += smartEstimateTokens(chunkMessage);
+
         if (chunk.isFirst) {
           // First chunk creates the conversation
-          const chunkMessage = this.formatChunkMessage(chunk, message);
-          response = await createConversation(chunkMessage);
+          response = await createConversation(chunkMessage, options.files);
           conversationId = response.conversation_id;
         } else {
           // Subsequent chunks continue the conversation
-          const chunkMessage = this.formatChunkMessage(chunk, message);
           response = await continueConversation(conversationId!, chunkMessage);
         }
 
@@ -255,14 +315,20 @@ export class SmartRequestHandler {
         );
 
         totalResponseTokens += smartEstimateTokens(chunkAnswer);
+
+        await this.saveCheckpoint(checkpointId, options, {
+          conversationId,
+          completedChunks: chunk.index + 1,
+          inputTokens: totalInputTokens,
+          responseTokens: totalResponseTokens
+        });
       }
 
       // Get final consolidated answer
       const finalStart = Date.now();
-      const finalRequest = await continueConversation(
-        conversationId!,
-        "Please provide a comprehensive summary and response based on all the information provided above."
-      );
+      const consolidationPrompt = "Please provide a comprehensive summary and response based on all the information provided above.";
+      totalInputTokens += smartEstimateTokens(consolidationPrompt);
+      const finalRequest = await continueConversation(conversationId!, consolidationPrompt);
 
       const finalAnswer = await this.pollForAnswer(
         finalRequest.conversation_id,
@@ -282,7 +348,7 @@ export class SmartRequestHandler {
         requestId: finalRequest.request_id,
         strategy: 'chunks',
         answer: finalAnswer,
-        totalInputTokens: 0,
+        totalInputTokens,
         totalResponseTokens,
         totalTime: 0,
         chunksProcessed: chunks.length,
@@ -302,8 +368,8 @@ export class SmartRequestHandler {
    */
   private async handleFileRequest(
     message: string,
-    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>> 
-      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>,
+    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>> 
+      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>,
     steps: ProcessingStep[]
   ): Promise<SmartRequestResult> {
     const stepStart = Date.now();
@@ -321,7 +387,7 @@ export class SmartRequestHandler {
       // Create conversation with file reference
       const conversationStart = Date.now();
       const fileMessage = "Please analyze and respond to the content in the uploaded file.";
-      const createResponse = await createConversation(fileMessage, [{ id: uploadResult.fileId }]);
+      const createResponse = await createConversation(fileMessage, [{ id: uploadResult.fileId }, ...(options.files || [])]);
       
       this.addProcessingStep(steps, 'Create Conversation with File', conversationStart, Date.now() - conversationStart, true, {
         conversationId: createResponse.conversation_id,
@@ -341,7 +407,7 @@ export class SmartRequestHandler {
         requestId: createResponse.request_id,
         strategy: 'file',
         answer,
-        totalInputTokens: 0,
+        totalInputTokens: uploadResult.tokens + smartEstimateTokens(fileMessage),
         totalResponseTokens: smartEstimateTokens(answer),
         totalTime: 0,
         fileId: uploadResult.fileId,
@@ -361,9 +427,10 @@ export class SmartRequestHandler {
    */
   private async handleHybridRequest(
     message: string,
-    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>> 
-      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>,
-    steps: ProcessingStep[]
+    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>> 
+      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>,
+    steps: ProcessingStep[],
+    checkpointId?: string
   ): Promise<SmartRequestResult> {
     // Split message: first 200K tokens as file, rest as chunks
     const tokens = smartEstimateTokens(message);
@@ -372,64 +439,143 @@ export class SmartRequestHandler {
     const fileContent = message.substring(0, splitPoint);
     const remainingContent = message.substring(splitPoint);
 
-    // Upload file part
-    const fileResult = await this.handleFileRequest(fileContent, options, steps);
+    if (!remainingContent.trim()) {
+      const fileResult = await this.handleFileRequest(fileContent, options, steps);
+      return {
+        ...fileResult,
+        strategy: 'hybrid'
+      };
+    }
+
+    const continueMessage = `Additionally, please consider this information: ${remainingContent}`;
+    const chunkOptions = options.chunkingOptions || calculateOptimalChunkSize(continueMessage);
+    const chunks = chunkText(continueMessage, chunkOptions);
+
+    const checkpoint = await this.resumeCheckpoint(checkpointId, message, {
+      strategy: 'hybrid',
+      sessionId: options.sessionId,
+      totalChunks: chunks.length
+    }, options, steps);
+
+    // Upload file part, unless a checkpoint already holds its conversation
+    let conversationId: string;
+    let fileId: string | undefined;
+    let totalInputTokens: number;
+    let totalResponseTokens: number;
+    if (checkpoint) {
+      conversationId = checkpoint.conversationId!;
+      fileId = checkpoint.fileId;
+      totalInputTokens = checkpoint.inputTokens;
+      totalResponseTokens = checkpoint.responseTokens;
+    } else {
+      const fileResult = await this.handleFileRequest(fileContent, options, steps);
+      conversationId = fileResult.conversationId;
+      fileId = fileResult.fileId;
+      totalInputTokens = fileResult.totalInputTokens;
+      totalResponseTokens = fileResult.totalResponseTokens;
+
+      await this.saveCheckpoint(checkpointId, options, {
+        conversationId,
+        fileId,
+        inputTokens: totalInputTokens,
+        responseTokens: totalResponseTokens
+      });
+    }
     
     // Continue with remaining content as chunks
-    if (remainingContent.trim()) {
-      const chunkStart = Date.now();
-      const continueMessage = `Additionally, please consider this information: ${remainingContent}`;
-      
-      const chunkOptions = options.chunkingOptions || calculateOptimalChunkSize(continueMessage);
-      const chunks = chunkText(continueMessage, chunkOptions);
-      
-      for (const chunk of chunks) {
-        const chunkMessage = this.formatChunkMessage(chunk, continueMessage);
-        const response = await continueConversation(fileResult.conversationId, chunkMessage);
-        
-        await this.pollForAnswer(response.conversation_id, response.request_id, options, steps);
-      }
+    const chunkStart = Date.now();
+    for (const chunk of chunks.slice(checkpoint?.completedChunks ?? 0)) {
+      const chunkMessage = this.formatChunkMessage(chunk, continueMessage);
+      totalInputTokens += smartEstimateTokens(chunkMessage);
+      const response = await continueConversation(conversationId, chunkMessage);
       
-      // Final consolidation
-      const finalRequest = await continueConversation(
-        fileResult.conversationId,
-        "Please provide a comprehensive response considering both the uploaded file content and the additional information provided."
-      );
-      
-      const finalAnswer = await this.pollForAnswer(
-        finalRequest.conversation_id,
-        finalRequest.request_id,
-        options,
-        steps
-      );
-      
-      this.addProcessingStep(steps, 'Hybrid Processing', chunkStart, Date.now() - chunkStart, true, {
-        additionalInfo: `File + ${chunks.length} chunks`
+      const chunkAnswer = await this.pollForAnswer(response.conversation_id, response.request_id, options, steps);
+      totalResponseTokens += smartEstimateTokens(chunkAnswer);
+
+      await this.saveCheckpoint(checkpointId, options, {
+        completedChunks: chunk.index + 1,
+        inputTokens: totalInputTokens,
+        responseTokens: totalResponseTokens
       });
-      
-      return {
-        ...fileResult,
-        strategy: 'hybrid',
-        answer: finalAnswer,
-        requestId: finalRequest.request_id,
-        chunksProcessed: chunks.length
-      };
     }
     
+    // Final consolidation
+    const consolidationPrompt = "Please provide a comprehensive response considering both the uploaded file content and the additional information provided.";
+    totalInputTokens += smartEstimateTokens(consolidationPrompt);
+    const finalRequest = await continueConversation(conversationId, consolidationPrompt);
+    
+    const finalAnswer = await this.pollForAnswer(
+      finalRequest.conversation_id,
+      finalRequest.request_id,
+      options,
+      steps
+    );
+    totalResponseTokens += smartEstimateTokens(finalAnswer);
+    
+    this.addProcessingStep(steps, 'Hybrid Processing', chunkStart, Date.now() - chunkStart, true, {
+      additionalInfo: `File + ${chunks.length} chunks`
+    });
+    
     return {
-      ...fileResult,
-      strategy: 'hybrid'
+      conversationId,
+      requestId: finalRequest.request_id,
+      strategy: 'hybrid',
+      answer: finalAnswer,
+      totalInputTokens,
+      totalResponseTokens,
+      totalTime: 0,
+      chunksProcessed: chunks.length,
+      fileId,
+      processingSteps: []
     };
   }
 
+  /**
+   * Pick up a checkpoint left by an earlier attempt at the same request, or start one.
+   * Returns null when there is nothing to resume from.
+   */
+  private async resumeCheckpoint(
+    checkpointId: string | undefined,
+    message: string,
+    fields: Pick<Checkpoint, 'strategy' | 'sessionId' | 'totalChunks'>,
+    options: Pick<SmartRequestOptions, 'checkpoints'>,
+    steps: ProcessingStep[]
+  ): Promise<Checkpoint | null> {
+    if (!checkpointId || !options.checkpoints) return null;
+
+    const existing = await options.checkpoints.get(checkpointId);
+    if (existing?.conversationId && existing.totalChunks === fields.totalChunks) {
+      this.addProcessingStep(steps, 'Resume from Checkpoint', Date.now(), 0, true, {
+        conversationId: existing.conversationId,
+        additionalInfo: `${existing.completedChunks} of ${existing.totalChunks} chunks already answered`
+      });
+      return existing;
+    }
+
+    await options.checkpoints.start(checkpointId, message, fields);
+    return null;
+  }
+
+  /**
+   * Record progress in the request's checkpoint, when checkpointing is on
+   */
+  private async saveCheckpoint(
+    checkpointId: string | undefined,
+    options: Pick<SmartRequestOptions, 'checkpoints'>,
+    patch: Partial<Omit<Checkpoint, 'id' | 'created_at'>>
+  ): Promise<void> {
+    if (!checkpointId || !options.checkpoints) return;
+    await options.checkpoints.update(checkpointId, patch);
+  }
+
   /**
    * Poll for answer with adaptive timeout
    */
   private async pollForAnswer(
     conversationId: string,
     requestId: string,
-    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>> 
-      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions'>,
+    options: Required<Omit<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>> 
+      & Pick<SmartRequestOptions, 'sessionId' | 'chunkingOptions' | 'fileUploadOptions' | 'progressCallback' | 'onProcessingStep' | 'checkpoints' | 'files'>,
     steps: ProcessingStep[],
     isFileProcessing: boolean = false
   ): Promise<string> {
@@ -514,7 +660,7 @@ export class SmartRequestHandler {
     success: boolean,
     extra: any = {}
   ): void {
-    steps.push({
+    const entry: ProcessingStep = {
       step,
       startTime,
       duration,
@@ -524,7 +670,10 @@ export class SmartRequestHandler {
       conversationId: extra.conversationId,
       requestId: extra.requestId,
       ...extra
-    });
+    };
+
+    steps.push(entry);
+    this.stepListeners.get(steps)?.(entry);
   }
 }
 
@@ -0,0 +1,102 @@
+/**
+ * Reasoning extraction for Toqan AI Bridge
+ *
+ * Toqan models may reason inside <think> or <thinking> tags. When the client asks
+ * for extended thinking these sections become Anthropic thinking blocks; otherwise
+ * they are stripped from the answer.
+ */
+
+import crypto from 'crypto';
+import { AnthropicRequest } from './types';
+
+const THINKING_PATTERN = /<(think|thinking)>([\s\S]*?)<\/\1>/gi;
+const LEADING_OPEN_PATTERN = /^\s*<(think|thinking)>/i;
+const LEADING_SECTION_PATTERN = /^\s*<(think|thinking)>[\s\S]*?<\/\1>/i;
+const OPEN_PATTERN = /<(think|thinking)>/i;
+
+export interface ThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+/**
+ * Whether the request enabled extended thinking
+ */
+export function thinkingEnabled(request: Pick<AnthropicRequest, 'thinking'>): boolean {
+  return request.thinking?.type === 'enabled';
+}
+
+/**
+ * Contents of every closed thinking section, in order
+ */
+export function extractThinking(text: string): string[] {
+  if (!text) return [];
+
+  return Array.from(text.matchAll(THINKING_PATTERN))
+    .map(match => match[2].trim())
+    .filter(Boolean);
+}
+
+/**
+ * Thinking section at the very start of a partial answer, for streaming.
+ * A trailing fragment that may grow into the closing tag is held back.
+ */
+export function leadingThinking(partialAnswer: string): { text: string; closed: boolean } | null {
+  const open = partialAnswer.match(LEADING_OPEN_PATTERN);
+  if (!open) return null;
+
+  const rest = partialAnswer.slice(open[0].length);
+  const closingTag = `</${open[1].toLowerCase()}>`;
+  const closeIndex = rest.toLowerCase().indexOf(closingTag);
+  if (closeIndex !== -1) {
+    return { text: rest.slice(0, closeIndex).trim(), closed: true };
+  }
+
+  let text = rest;
+  for (let len = Math.min(closingTag.length - 1, text.length); len > 0; len--) {
+    if (text.slice(-len).toLowerCase() === closingTag.slice(0, len)) {
+      text = text.slice(0, -len);
+      break;
+    }
+  }
+
+  // Trailing whitespace may turn out to precede the closing tag, which is trimmed away
+  return { text: text.trimStart().replace(/\s+$/, ''), closed: false };
+}
+
+/**
+ * A partial answer cut at its second thinking section, for streaming. Text after that
+ * section may only go out once the section's thinking block has been sent.
+ */
+export function beforeLaterThinking(partialAnswer: string): string {
+  const leading = partialAnswer.match(LEADING_SECTION_PATTERN);
+  const offset = leading ? leading[0].length : 0;
+  const next = partialAnswer.slice(offset).search(OPEN_PATTERN);
+  return next === -1 ? partialAnswer : partialAnswer.slice(0, offset + next);
+}
+
+/**
+ * Signature for a bridge-produced thinking block. Toqan doesn't sign its reasoning,
+ * so this only lets clients that echo blocks back tell them apart.
+ */
+export function thinkingSignature(thinking: string): string {
+  return crypto.createHash('sha256').update(thinking).digest('base64');
+}
+
+/**
+ * Thinking content blocks for an answer, each with the part of the answer that precedes it
+ */
+export function placedThinkingBlocks(answer: string): { block: ThinkingBlock; precedingText: string }[] {
+  if (!answer) return [];
+
+  return Array.from(answer.matchAll(THINKING_PATTERN))
+    .filter(match => match[2].trim())
+    .map(match => {
+      const thinking = match[2].trim();
+      return {
+        block: { type: 'thinking', thinking, signature: thinkingSignature(thinking) },
+        precedingText: answer.slice(0, match.index)
+      };
+    });
+}
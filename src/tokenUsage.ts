@@ -0,0 +1,84 @@
+/**
+ * Token usage accounting for Toqan AI Bridge
+ *
+ * Toqan reports no token counts, so usage is estimated with smartEstimateTokens
+ * over everything the request carries: system prompt, tool catalog, history and
+ * content blocks. Images and documents get size-based estimates.
+ */
+
+import { AnthropicRequest, ContentBlock } from './types';
+import { renderToolCatalog } from './toolCatalog';
+import { smartEstimateTokens } from './utils/tokenEstimation';
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/** Anthropic bills images at roughly width * height / 750 tokens; ~1600 is a typical 1.15MP image */
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+
+/** Anthropic documents cost 1500-3000 tokens per page; the lower bound is used per PDF page */
+export const DOCUMENT_PAGE_TOKEN_ESTIMATE = 1500;
+
+/**
+ * Estimated input tokens of a request: system prompt, tool catalog and every message
+ */
+export function estimateInputTokens(request: Pick<AnthropicRequest, 'system' | 'messages' | 'tools'>): number {
+  let total = estimateContentTokens(request.system);
+
+  if (request.tools && request.tools.length > 0) {
+    total += smartEstimateTokens(renderToolCatalog(request.tools));
+  }
+
+  for (const message of request.messages || []) {
+    total += estimateContentTokens(message.content);
+  }
+
+  return total;
+}
+
+/**
+ * Estimated tokens of message content, a string or a list of blocks
+ */
+export function estimateContentTokens(content: string | ContentBlock[] | AnthropicRequest['system'] | undefined): number {
+  if (!content) return 0;
+  if (typeof content === 'string') return smartEstimateTokens(content);
+  if (!Array.isArray(content)) return 0;
+
+  return content.reduce((total: number, block: any) => total + estimateBlockTokens(block), 0);
+}
+
+function estimateBlockTokens(block: any): number {
+  if (typeof block === 'string') return smartEstimateTokens(block);
+
+  switch (block?.type) {
+    case 'text':
+      return smartEstimateTokens(block.text || '');
+    case 'image':
+      return IMAGE_TOKEN_ESTIMATE;
+    case 'document':
+      return estimateDocumentTokens(block.source);
+    case 'tool_use':
+      return smartEstimateTokens(`${block.name} ${JSON.stringify(block.input ?? {})}`);
+    case 'tool_result':
+      return estimateContentTokens(block.content);
+    default:
+      return 0;
+  }
+}
+
+// Plain-text documents are counted as text; PDFs by their page count
+function estimateDocumentTokens(source: any): number {
+  if (source?.type === 'text' && typeof source.data === 'string') {
+    return smartEstimateTokens(source.data);
+  }
+
+  if (source?.type === 'base64' && typeof source.data === 'string') {
+    const decoded = Buffer.from(source.data, 'base64').toString('latin1');
+    const pages = (decoded.match(/\/Type\s*\/Page(?![s\w])/g) || []).length;
+    return Math.max(1, pages) * DOCUMENT_PAGE_TOKEN_ESTIMATE;
+  }
+
+  return DOCUMENT_PAGE_TOKEN_ESTIMATE;
+}
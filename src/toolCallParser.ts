@@ -0,0 +1,336 @@
+/**
+ * Tool call parser for Toqan AI Bridge
+ *
+ * Toqan has no native tool calling, so tool calls arrive as text in one of the
+ * syntaxes models tend to produce:
+ *
+ *   USE_TOOL(name, {"arg": "value"})
+ *   ```tool_call
+ *   {"name": "name", "input": {"arg": "value"}}
+ *   ```
+ *   <tool_use><name>name</name><input>{"arg": "value"}</input></tool_use>
+ *
+ * Arguments are extracted with a balanced-bracket scan, so nested objects and
+ * braces inside strings survive, and can be validated against the tool's input_schema.
+ */
+
+import { Tool, ToolChoice } from './types';
+import { validateAgainstSchema } from './utils/jsonSchema';
+
+export type ToolCallSyntax = 'use_tool' | 'fenced' | 'xml';
+
+export interface ParsedToolCall {
+  /** Tool name as written by the model */
+  name: string;
+  /** Parsed arguments, or null when they could not be parsed */
+  input: Record<string, any> | null;
+  /** Exact text of the call in the answer */
+  raw: string;
+  /** Syntax the call was written in */
+  syntax: ToolCallSyntax;
+  /** Offset of the call in the answer */
+  start: number;
+  /** Why the arguments could not be parsed */
+  parseError?: string;
+}
+
+export interface ToolCallProblem {
+  call: ParsedToolCall;
+  errors: string[];
+}
+
+export interface ToolCallExtraction {
+  /** Answer text with every detected tool call removed */
+  textContent: string;
+  calls: ParsedToolCall[];
+}
+
+const USE_TOOL_MARKER = 'USE_TOOL(';
+const FENCED_PATTERN = /```tool_call[^\n]*\n([\s\S]*?)```/g;
+const XML_PATTERN = /<tool_use(\s[^>]*)?>([\s\S]*?)<\/tool_use>/gi;
+
+/**
+ * Find every tool call in an answer, in order of appearance
+ */
+export function extractToolCalls(text: string): ToolCallExtraction {
+  if (!text) {
+    return { textContent: '', calls: [] };
+  }
+
+  const candidates = [...findFencedCalls(text), ...findXmlCalls(text), ...findUseToolCalls(text)]
+    .sort((a, b) => a.start - b.start);
+
+  // A call written inside another (e.g. USE_TOOL inside a fenced block) belongs to the outer one
+  const calls: ParsedToolCall[] = [];
+  let coveredUntil = -1;
+  for (const call of candidates) {
+    if (call.start < coveredUntil) continue;
+    calls.push(call);
+    coveredUntil = call.start + call.raw.length;
+  }
+
+  let textContent = '';
+  let cursor = 0;
+  for (const call of calls) {
+    textContent += text.slice(cursor, call.start);
+    cursor = call.start + call.raw.length;
+  }
+  textContent += text.slice(cursor);
+
+  return {
+    textContent: textContent.replace(/\n\s*\n/g, '\n').trim(),
+    calls
+  };
+}
+
+/**
+ * Check parsed calls against the declared tools. Calls to unknown tools, calls with
+ * unparseable arguments and calls whose arguments don't match input_schema are reported.
+ */
+export function findToolCallProblems(calls: ParsedToolCall[], tools?: Tool[]): ToolCallProblem[] {
+  const problems: ToolCallProblem[] = [];
+
+  for (const call of calls) {
+    if (call.parseError || !call.input) {
+      problems.push({ call, errors: [call.parseError || 'arguments could not be parsed'] });
+      continue;
+    }
+    if (!tools || tools.length === 0) continue;
+
+    const tool = tools.find(t => t.name === call.name);
+    if (!tool) {
+      problems.push({ call, errors: [`unknown tool "${call.name}"`] });
+      continue;
+    }
+
+    const errors = validateAgainstSchema(call.input, tool.input_schema);
+    if (errors.length > 0) problems.push({ call, errors });
+  }
+
+  return problems;
+}
+
+/**
+ * Follow-up message asking the model to re-issue its tool calls with valid arguments
+ */
+export function buildRepairPrompt(problems: ToolCallProblem[], tools: Tool[] = []): string {
+  const lines = ['Some of your tool calls could not be executed:'];
+
+  for (const { call, errors } of problems) {
+    lines.push(`- ${call.name}: ${errors.join('; ')}`);
+  }
+
+  const schemas = problems
+    .map(({ call }) => tools.find(t => t.name === call.name))
+    .filter((tool, i, all): tool is Tool => !!tool && all.indexOf(tool) === i)
+    .map(tool => `${tool.name} input schema: ${JSON.stringify(tool.input_schema)}`);
+  if (schemas.length > 0) {
+    lines.push('', ...schemas);
+  }
+
+  lines.push(
+    '',
+    'Reply again with the complete, corrected set of tool calls and nothing else, one per line, using:',
+    'USE_TOOL(tool_name, {"param": "value"})',
+    'The arguments must be a single valid JSON object that matches the tool\'s input schema.'
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Normalize tool_choice (object or bare string) to a ToolChoice. Without tools nothing can be called.
+ */
+export function normalizeToolChoice(choice: ToolChoice | string | undefined, tools?: Tool[]): ToolChoice {
+  if (!tools || tools.length === 0) return { type: 'none' };
+  if (!choice) return { type: 'auto' };
+
+  const normalized: ToolChoice = typeof choice === 'string' ? { type: choice as ToolChoice['type'] } : choice;
+  return ['auto', 'any', 'tool', 'none'].includes(normalized.type) ? normalized : { type: 'auto' };
+}
+
+/**
+ * Whether the calls satisfy a tool_choice that requires a tool call (any / tool)
+ */
+export function satisfiesToolChoice(calls: ParsedToolCall[], choice: ToolChoice): boolean {
+  const usable = calls.filter(call => call.input);
+  switch (choice.type) {
+    case 'any':
+      return usable.length > 0;
+    case 'tool':
+      return usable.some(call => call.name === choice.name);
+    default:
+      return true;
+  }
+}
+
+function findUseToolCalls(text: string): ParsedToolCall[] {
+  const calls: ParsedToolCall[] = [];
+  let start = text.indexOf(USE_TOOL_MARKER);
+
+  while (start !== -1) {
+    const call = parseUseToolAt(text, start);
+    if (call) calls.push(call);
+    start = text.indexOf(USE_TOOL_MARKER, start + (call ? call.raw.length : USE_TOOL_MARKER.length));
+  }
+
+  return calls;
+}
+
+// USE_TOOL(name, {...}) or USE_TOOL(name) - the name may be quoted
+function parseUseToolAt(text: string, start: number): ParsedToolCall | null {
+  let i = start + USE_TOOL_MARKER.length;
+  const nameEnd = findFirst(text, [',', ')', '\n'], i);
+  if (nameEnd === -1 || text[nameEnd] === '\n') return null;
+
+  const name = stripQuotes(text.slice(i, nameEnd).trim());
+  if (!/^[\w.:-]+$/.test(name)) return null;
+
+  if (text[nameEnd] === ')') {
+    return { name, input: {}, raw: text.slice(start, nameEnd + 1), syntax: 'use_tool', start };
+  }
+
+  i = skipWhitespace(text, nameEnd + 1);
+  if (text[i] !== '{') {
+    const close = text.indexOf(')', i);
+    const end = close === -1 ? text.length : close + 1;
+    return { name, input: null, raw: text.slice(start, end), syntax: 'use_tool', start, parseError: 'arguments must be a JSON object' };
+  }
+
+  const jsonEnd = findBalancedEnd(text, i);
+  if (jsonEnd === -1) {
+    return { name, input: null, raw: text.slice(start), syntax: 'use_tool', start, parseError: 'arguments JSON is not closed' };
+  }
+
+  const after = skipWhitespace(text, jsonEnd);
+  const end = text[after] === ')' ? after + 1 : jsonEnd;
+  const { value, error } = parseJsonObject(text.slice(i, jsonEnd));
+
+  return { name, input: value, raw: text.slice(start, end), syntax: 'use_tool', start, parseError: error };
+}
+
+function findFencedCalls(text: string): ParsedToolCall[] {
+  const calls: ParsedToolCall[] = [];
+
+  for (const match of text.matchAll(FENCED_PATTERN)) {
+    const { value, error } = parseJsonObject(match[1].trim());
+    const call = fromPayload(value);
+    calls.push({
+      name: call.name,
+      input: error ? null : call.input,
+      raw: match[0],
+      syntax: 'fenced',
+      start: match.index ?? 0,
+      parseError: error || call.error
+    });
+  }
+
+  return calls;
+}
+
+function findXmlCalls(text: string): ParsedToolCall[] {
+  const calls: ParsedToolCall[] = [];
+
+  for (const match of text.matchAll(XML_PATTERN)) {
+    const attributes = match[1] || '';
+    const body = match[2].trim();
+    const base = { raw: match[0], syntax: 'xml' as const, start: match.index ?? 0 };
+
+    const nameAttr = attributes.match(/name\s*=\s*["']([^"']+)["']/);
+    const nameTag = body.match(/<(?:tool_)?name>([\s\S]*?)<\/(?:tool_)?name>/);
+    const inputTag = body.match(/<(input|parameters|arguments)>([\s\S]*?)<\/\1>/);
+
+    if (nameAttr || nameTag) {
+      const name = (nameAttr?.[1] || nameTag?.[1] || '').trim();
+      const argsText = inputTag ? inputTag[2].trim() : nameAttr ? body : '';
+      if (!argsText) {
+        calls.push({ ...base, name, input: {} });
+        continue;
+      }
+      const { value, error } = parseJsonObject(argsText);
+      calls.push({ ...base, name, input: value, parseError: error });
+      continue;
+    }
+
+    const { value, error } = parseJsonObject(body);
+    const call = fromPayload(value);
+    calls.push({ ...base, name: call.name, input: error ? null : call.input, parseError: error || call.error });
+  }
+
+  return calls;
+}
+
+// {"name": ..., "input" | "arguments" | "parameters": {...}} - arguments may be a JSON string
+function fromPayload(payload: Record<string, any> | null): { name: string; input: Record<string, any> | null; error?: string } {
+  if (!payload) return { name: '', input: null };
+
+  const name = typeof payload.name === 'string' ? payload.name.trim() : '';
+  if (!name) return { name: '', input: null, error: 'tool call has no name' };
+
+  let args = payload.input ?? payload.arguments ?? payload.parameters ?? {};
+  if (typeof args === 'string') {
+    const parsed = parseJsonObject(args);
+    if (parsed.error) return { name, input: null, error: parsed.error };
+    args = parsed.value;
+  }
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    return { name, input: null, error: 'arguments must be a JSON object' };
+  }
+
+  return { name, input: args };
+}
+
+function parseJsonObject(text: string): { value: Record<string, any> | null; error?: string } {
+  try {
+    const value = JSON.parse(text);
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { value: null, error: 'arguments must be a JSON object' };
+    }
+    return { value };
+  } catch (error: any) {
+    return { value: null, error: `arguments are not valid JSON (${error.message})` };
+  }
+}
+
+// Index just past the bracket that closes the one at `start`, or -1 if it never closes
+function findBalancedEnd(text: string, start: number): number {
+  const closers: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') {
+      if (closers.pop() !== ch) return -1;
+      if (closers.length === 0) return i + 1;
+    }
+  }
+
+  return -1;
+}
+
+function findFirst(text: string, chars: string[], from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (chars.includes(text[i])) return i;
+  }
+  return -1;
+}
+
+function skipWhitespace(text: string, from: number): number {
+  let i = from;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+function stripQuotes(value: string): string {
+  return value.replace(/^["'`]|["'`]$/g, '');
+}
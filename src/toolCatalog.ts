@@ -0,0 +1,105 @@
+/**
+ * Tool catalog rendering for Toqan AI Bridge
+ *
+ * Renders tool definitions as compact TypeScript-like signatures plus one line per
+ * documented property, so Toqan sees types, enums, required flags and nested
+ * objects without the noise of raw JSON Schema.
+ */
+
+import { Tool } from './types';
+import { hashContent } from './sessionStore';
+
+/**
+ * Render every tool of a catalog, separated by blank lines
+ */
+export function renderToolCatalog(tools: Tool[]): string {
+  return tools.map(renderTool).join('\n\n');
+}
+
+/**
+ * Render a single tool:
+ *
+ *   ## Write
+ *   Writes a file to the local filesystem.
+ *   Input: {file_path: string, content: string, mode?: "w" | "a"}
+ *   - file_path: The absolute path to the file
+ */
+export function renderTool(tool: Tool): string {
+  const lines = [`## ${tool.name}`];
+
+  const description = (tool.description || '').replace(/\n\s*\n+/g, '\n').trim();
+  if (description) lines.push(description);
+
+  lines.push(`Input: ${renderSchemaType(tool.input_schema)}`);
+  collectPropertyDocs(tool.input_schema, '', lines);
+
+  return lines.join('\n');
+}
+
+/**
+ * TypeScript-like type of a schema: optional properties get "?", enums become unions
+ */
+export function renderSchemaType(schema: any): string {
+  if (!schema || typeof schema !== 'object') return 'any';
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map((value: any) => JSON.stringify(value)).join(' | ');
+
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (Array.isArray(alternatives)) return alternatives.map(renderSchemaType).join(' | ');
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type: string) => renderSchemaType({ ...schema, type })).join(' | ');
+  }
+
+  if (schema.type === 'array') {
+    const item = renderSchemaType(schema.items);
+    return item.includes(' | ') ? `(${item})[]` : `${item}[]`;
+  }
+
+  if (schema.type === 'object' || schema.properties) {
+    if (schema.properties) {
+      const required: string[] = schema.required || [];
+      const fields = Object.entries(schema.properties).map(([key, property]) =>
+        `${key}${required.includes(key) ? '' : '?'}: ${renderSchemaType(property)}`
+      );
+      return `{${fields.join(', ')}}`;
+    }
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      return `Record<string, ${renderSchemaType(schema.additionalProperties)}>`;
+    }
+    return 'object';
+  }
+
+  return ['string', 'number', 'integer', 'boolean', 'null'].includes(schema.type) ? schema.type : 'any';
+}
+
+/**
+ * Stable hash of a catalog, used to tell whether a conversation already has it
+ */
+export function hashToolCatalog(tools: Tool[]): string {
+  return hashContent(tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.input_schema
+  })));
+}
+
+// One "- path: description (default: x)" line per documented property, nested ones included
+function collectPropertyDocs(schema: any, prefix: string, lines: string[]): void {
+  if (!schema?.properties) return;
+
+  for (const [key, property] of Object.entries<any>(schema.properties)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const notes: string[] = [];
+    if (typeof property?.description === 'string' && property.description.trim()) {
+      notes.push(property.description.replace(/\s+/g, ' ').trim());
+    }
+    if (property?.default !== undefined) {
+      notes.push(`(default: ${JSON.stringify(property.default)})`);
+    }
+    if (notes.length > 0) lines.push(`- ${path}: ${notes.join(' ')}`);
+
+    collectPropertyDocs(property, path, lines);
+    if (property?.type === 'array') collectPropertyDocs(property.items, `${path}[]`, lines);
+  }
+}
@@ -3,6 +3,7 @@ import FormData from "form-data";
 import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
+import { currentModel } from "./modelRegistry";
 dotenv.config();
 
 // Debug logging helper
@@ -29,22 +30,35 @@ function logToqanError(operation: string, error: any, additionalData?: any) {
 const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
 const KEY = process.env.TOQAN_API_KEY || "";
 
-function headers() {
-  return { "X-Api-Key": KEY, "Accept": "application/json" };
+// Backend of the model being served, falling back to TOQAN_BASE_URL / TOQAN_API_KEY
+function backend(): { baseUrl: string; apiKey: string } {
+  const model = currentModel();
+  return model ? { baseUrl: model.baseUrl, apiKey: model.apiKey } : { baseUrl: BASE, apiKey: KEY };
 }
 
-const client: AxiosInstance = axios.create({
-  baseURL: BASE,
-  headers: headers(),
-  timeout: 60_000
-});
+function headers(apiKey: string) {
+  return { "X-Api-Key": apiKey, "Accept": "application/json" };
+}
+
+const clients = new Map<string, AxiosInstance>();
+
+function client(): AxiosInstance {
+  const { baseUrl, apiKey } = backend();
+  const cacheKey = `${baseUrl}|${apiKey}`;
+  let instance = clients.get(cacheKey);
+  if (!instance) {
+    instance = axios.create({ baseURL: baseUrl, headers: headers(apiKey), timeout: 60_000 });
+    clients.set(cacheKey, instance);
+  }
+  return instance;
+}
 
 export async function createConversation(user_message: string, private_user_files?: { id: string }[]) {
   try {
     const payload: any = { user_message };
     if (private_user_files) payload.private_user_files = private_user_files;
     debugLog('API_CALL', { operation: 'createConversation', payload });
-    const r = await client.post("/create_conversation", payload);
+    const r = await client().post("/create_conversation", payload);
     debugLog('API_SUCCESS', { operation: 'createConversation', response: r.data });
     return r.data;
   } catch (error: any) {
@@ -60,7 +74,7 @@ export async function continueConversation(conversation_id: string, user_message
       payload.private_user_files = private_user_files;
     }
     debugLog('API_CALL', { operation: 'continueConversation', conversation_id, user_message: user_message.substring(0, 100) + '...', fileCount: private_user_files?.length || 0 });
-    const r = await client.post("/continue_conversation", payload);
+    const r = await client().post("/continue_conversation", payload);
     debugLog('API_SUCCESS', { operation: 'continueConversation', response: r.data });
     return r.data;
   } catch (error: any) {
@@ -73,7 +87,7 @@ export async function getAnswer(conversation_id: string, request_id?: string) {
   try {
     const params: any = { conversation_id };
     if (request_id) params.request_id = request_id;
-    const r = await client.get("/get_answer", { params });
+    const r = await client().get("/get_answer", { params });
     // Only log successful responses that contain actual answers, not polling responses
     if (r.data.answer && r.data.status === 'finished') {
       debugLog('API_SUCCESS', { operation: 'getAnswer', status: r.data.status, answerLength: r.data.answer?.length });
@@ -88,7 +102,7 @@ export async function getAnswer(conversation_id: string, request_id?: string) {
 export async function findConversation(body: any) {
   try {
     debugLog('API_CALL', { operation: 'findConversation', body });
-    const r = await client.post("/find_conversation", body);
+    const r = await client().post("/find_conversation", body);
     debugLog('API_SUCCESS', { operation: 'findConversation', response: r.data });
     return r.data;
   } catch (error: any) {
@@ -97,13 +111,31 @@ export async function findConversation(body: any) {
   }
 }
 
+export async function downloadFile(conversation_id: string, file_name: string): Promise<{ data: Buffer; contentType: string }> {
+  try {
+    debugLog('API_CALL', { operation: 'downloadFile', conversation_id, file_name });
+    const r = await client().get("/download_file", {
+      params: { conversation_id, file_name },
+      responseType: 'arraybuffer',
+      headers: { accept: 'application/octet-stream' }
+    });
+    const data = Buffer.from(r.data);
+    debugLog('API_SUCCESS', { operation: 'downloadFile', file_name, size: data.length });
+    return { data, contentType: String(r.headers['content-type'] || 'application/octet-stream').split(';')[0] };
+  } catch (error: any) {
+    logToqanError('downloadFile', error, { conversation_id, file_name });
+    throw error;
+  }
+}
+
 export async function uploadFile(bytes: Buffer, filename: string, contentType: string) {
   try {
     debugLog('API_CALL', { operation: 'uploadFile', filename, contentType, size: bytes.length });
     const form = new FormData();
     form.append("file", bytes, { filename, contentType });
-    const headers = { ...form.getHeaders(), "X-Api-Key": KEY };
-    const r = await axios.put(`${BASE}/upload_file`, form, { headers, timeout: 120_000 });
+    const { baseUrl, apiKey } = backend();
+    const headers = { ...form.getHeaders(), "X-Api-Key": apiKey };
+    const r = await axios.put(`${baseUrl}/upload_file`, form, { headers, timeout: 120_000 });
     debugLog('API_SUCCESS', { operation: 'uploadFile', response: r.data });
     return r.data;
   } catch (error: any) {
@@ -7,6 +7,8 @@ export interface ContentBlock {
     data?: string;
     file_id?: string;
   };
+  /** Document title */
+  title?: string;
   cache_control?: any;
   // Tool use fields
   id?: string;
@@ -15,6 +17,7 @@ export interface ContentBlock {
   // Tool result fields
   tool_use_id?: string;
   content?: string | ContentBlock[];
+  is_error?: boolean;
 }
 
 export interface AnthropicMessage {
@@ -34,10 +37,15 @@ export interface Tool {
 }
 
 export interface ToolChoice {
-  type: "auto" | "any" | "tool";
+  type: "auto" | "any" | "tool" | "none";
   name?: string;
 }
 
+export interface ThinkingConfig {
+  type: "enabled" | "disabled";
+  budget_tokens?: number;
+}
+
 export interface AnthropicRequest {
   model?: string;
   messages: AnthropicMessage[];
@@ -52,6 +60,7 @@ export interface AnthropicRequest {
   file_ids?: string[]; // optional file ids from /v1/files
   tools?: Tool[];
   tool_choice?: ToolChoice | string;
+  thinking?: ThinkingConfig;
   metadata?: any;
 }
 
@@ -79,9 +88,81 @@ export interface AnthropicCompletionResponse {
   model: string;
   completion: string;
   stop_reason?: string | null;
+  stop_sequence?: string | null;
   usage?: {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
   };
+  /** Files Toqan attached to its reply, as image and document blocks */
+  attachments?: ContentBlock[];
+}
+
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface OpenAIContentPart {
+  type: "text" | "image_url" | string;
+  text?: string;
+  image_url?: { url: string; detail?: string };
+}
+
+export interface OpenAIChatMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool" | "function" | string;
+  content?: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+  function_call?: { name: string; arguments: string };
+}
+
+export interface OpenAIFunction {
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+export interface OpenAIChatRequest {
+  model?: string;
+  messages: OpenAIChatMessage[];
+  tools?: Array<{ type: "function"; function: OpenAIFunction }>;
+  tool_choice?: "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+  functions?: OpenAIFunction[];
+  function_call?: "none" | "auto" | { name: string };
+  stop?: string | string[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  user?: string;
+  conversation_id?: string; // optional session key from client, as on /v1/messages
+}
+
+export interface OpenAIChatCompletion {
+  id: string;
+  object: "chat.completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 }
@@ -182,6 +182,28 @@ function detectLanguage(text: string): TokenEstimationOptions['language'] {
   }
 }
 
+/**
+ * Longest prefix of text whose estimated token count fits the limit
+ */
+export function truncateToTokenLimit(text: string, limit: number): string {
+  if (smartEstimateTokens(text) <= limit) return text;
+  if (limit <= 0) return '';
+
+  // Binary search on length; the estimator is close enough to monotonic for this
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (smartEstimateTokens(text.slice(0, mid)) <= limit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return text.slice(0, low);
+}
+
 /**
  * Check if text size exceeds token limit
  */
@@ -0,0 +1,203 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { parseEvents } from "./sseEvents";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("Toqan attachments", () => {
+  let server: any;
+  beforeAll(async () => {
+    process.env.TOQAN_ATTACHMENTS = "true";
+    server = buildServer();
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    delete process.env.TOQAN_ATTACHMENTS;
+    await server.close();
+  });
+
+  const conversation = [
+    { id: "m1", type: "message", message: "make me a chart", author_id: "apikey_123" },
+    {
+      id: "m2",
+      type: "message",
+      message: "Here is your chart.",
+      author_id: "Toqan",
+      attachments: [
+        { name: "chart.png", mime_type: "image/png" },
+        { name: "data%20export.zip", mime_type: "application/zip" }
+      ]
+    }
+  ];
+
+  // A reply carrying just the chart image
+  const chartReply = { ...conversation[1], attachments: [{ name: "chart.png", mime_type: "image/png" }] };
+
+  test("returns new attachments as content blocks, once", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-attach", request_id: "req-attach-1" });
+    nock(BASE).post("/continue_conversation").reply(200, { conversation_id: "conv-attach", request_id: "req-attach-2" });
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, { status: "finished", answer: "Here is your chart." });
+    nock(BASE).post("/find_conversation", { conversation_id: "conv-attach" }).times(2).reply(200, conversation);
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach", file_name: "chart.png" })
+      .reply(200, Buffer.from("png bytes"), { "content-type": "image/png" });
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach", file_name: "data export.zip" })
+      .reply(200, Buffer.from("zip bytes"), { "content-type": "application/zip" });
+
+    const first = { role: "user", content: "make me a chart" };
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      headers: { "x-api-key": "key-attachments" },
+      payload: { model: "claude", max_tokens: 100, conversation_id: "attach-session", messages: [first] }
+    });
+    const content = JSON.parse(res.payload).content;
+    expect(content[0]).toEqual({ type: "text", text: "Here is your chart." });
+    expect(content[1]).toEqual({
+      type: "image",
+      source: { type: "base64", media_type: "image/png", data: Buffer.from("png bytes").toString("base64") }
+    });
+    expect(content[2]).toMatchObject({ type: "document", source: { type: "file" }, title: "data export.zip" });
+
+    const hosted = await server.inject({
+      method: "GET",
+      url: `/v1/files/${content[2].source.file_id}/content`,
+      headers: { "x-api-key": "key-attachments" }
+    });
+    expect(hosted.headers["content-type"]).toContain("application/zip");
+    expect(hosted.payload).toBe("zip bytes");
+
+    // The next turn lists the same attachments: they aren't returned again
+    const next = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      headers: { "x-api-key": "key-attachments" },
+      payload: {
+        model: "claude",
+        max_tokens: 100,
+        conversation_id: "attach-session",
+        messages: [first, { role: "assistant", content }, { role: "user", content: "thanks" }]
+      }
+    });
+    expect(JSON.parse(next.payload).content).toEqual([{ type: "text", text: "Here is your chart." }]);
+  });
+
+  test("returns an attachment whose download failed on the next turn", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-attach-retry", request_id: "req-attach-retry-1" });
+    nock(BASE).post("/continue_conversation").reply(200, { conversation_id: "conv-attach-retry", request_id: "req-attach-retry-2" });
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, { status: "finished", answer: "Here is your chart." });
+    nock(BASE).post("/find_conversation", { conversation_id: "conv-attach-retry" }).times(2).reply(200, conversation);
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach-retry", file_name: "chart.png" })
+      .reply(503, "unavailable");
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach-retry", file_name: "data export.zip" })
+      .reply(200, Buffer.from("zip bytes"), { "content-type": "application/zip" });
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach-retry", file_name: "chart.png" })
+      .reply(200, Buffer.from("png bytes"), { "content-type": "image/png" });
+
+    const first = { role: "user", content: "make me a chart" };
+    const send = (messages: any[]) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      headers: { "x-api-key": "key-attachments" },
+      payload: { model: "claude", max_tokens: 100, conversation_id: "attach-retry", messages }
+    });
+
+    const content = JSON.parse((await send([first])).payload).content;
+    expect(content.map((block: any) => block.type)).toEqual(["text", "document"]);
+    expect(content[1].title).toBe("data export.zip");
+
+    const next = JSON.parse((await send([first, { role: "assistant", content }, { role: "user", content: "and the chart?" }])).payload).content;
+    expect(next.map((block: any) => block.type)).toEqual(["text", "image"]);
+    expect(next[1].source.data).toBe(Buffer.from("png bytes").toString("base64"));
+    expect(await getRedis().ttl("toqan:seen_attachments:conv-attach-retry")).toBeGreaterThan(0);
+  });
+
+  test("streams attachments as blocks before message_delta", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-attach-stream", request_id: "req-attach-stream" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "Here is your chart." });
+    nock(BASE).post("/find_conversation", { conversation_id: "conv-attach-stream" }).reply(200, [conversation[0], chartReply]);
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach-stream", file_name: "chart.png" })
+      .reply(200, Buffer.from("png bytes"), { "content-type": "image/png" });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      headers: { "x-api-key": "key-attachments" },
+      payload: { model: "claude", max_tokens: 100, stream: true, conversation_id: "attach-stream", messages: [{ role: "user", content: "make me a chart" }] }
+    });
+
+    const events = parseEvents(res.payload);
+    const image = events.findIndex((e) => e.event === "content_block_start" && e.data.content_block.type === "image");
+    expect(image).toBeGreaterThan(-1);
+    expect(events[image].data.content_block.source).toEqual({
+      type: "base64",
+      media_type: "image/png",
+      data: Buffer.from("png bytes").toString("base64")
+    });
+    expect(events[image + 1]).toEqual({ event: "content_block_stop", data: { type: "content_block_stop", index: events[image].data.index } });
+    expect(events.slice(image + 2).map((e) => e.event)).toEqual(["message_delta", "message_stop"]);
+  });
+
+  test("skips attachments a conversation had before the bridge first continued it", async () => {
+    await getRedis().hset("toqan:conv_map", "attach-existing", "conv-attach-old");
+
+    const older = { ...conversation[1], id: "m-old", attachments: [{ name: "old.png", mime_type: "image/png" }] };
+    const newer = { ...conversation[1], id: "m-new", attachments: [{ name: "new.png", mime_type: "image/png" }] };
+    nock(BASE).post("/find_conversation", { conversation_id: "conv-attach-old" }).reply(200, [older]);
+    nock(BASE).post("/continue_conversation").reply(200, { conversation_id: "conv-attach-old", request_id: "req-attach-old" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "A new chart." });
+    nock(BASE).post("/find_conversation", { conversation_id: "conv-attach-old" }).reply(200, [older, newer]);
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach-old", file_name: "new.png" })
+      .reply(200, Buffer.from("new png"), { "content-type": "image/png" });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      headers: { "x-api-key": "key-attachments" },
+      payload: { model: "claude", max_tokens: 100, conversation_id: "attach-existing", messages: [{ role: "user", content: "another chart" }] }
+    });
+
+    const content = JSON.parse(res.payload).content;
+    expect(content).toHaveLength(2);
+    expect(content[1].source.data).toBe(Buffer.from("new png").toString("base64"));
+    expect(nock.isDone()).toBe(true);
+  });
+
+  test("/v1/complete returns the reply's attachments", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-attach-complete", request_id: "req-attach-complete" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "Here is your chart." });
+    nock(BASE).post("/find_conversation", { conversation_id: "conv-attach-complete" }).reply(200, [chartReply]);
+    nock(BASE)
+      .get("/download_file")
+      .query({ conversation_id: "conv-attach-complete", file_name: "chart.png" })
+      .reply(200, Buffer.from("png bytes"), { "content-type": "image/png" });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/complete",
+      headers: { "x-api-key": "key-attachments" },
+      payload: { model: "claude", max_tokens: 100, conversation_id: "attach-complete", messages: [{ role: "user", content: "make me a chart" }] }
+    });
+
+    const body = JSON.parse(res.payload);
+    expect(body.completion).toBe("Here is your chart.");
+    expect(body.attachments).toEqual([
+      { type: "image", source: { type: "base64", media_type: "image/png", data: Buffer.from("png bytes").toString("base64") } }
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { BatchStore, BATCH_PREFIX, BATCH_PROCESSING_KEY } from "../src/batchStore";
+import { BatchProcessor } from "../src/batchProcessor";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("batch store", () => {
+  test("canceling ends a batch whose items were never started", async () => {
+    const store = new BatchStore(getRedis());
+    const batch = await store.createBatch([
+      { custom_id: "a", params: { model: "claude", messages: [{ role: "user", content: "1" }] } },
+      { custom_id: "b", params: { model: "claude", messages: [{ role: "user", content: "2" }] } }
+    ]);
+    expect(batch.processing_status).toBe("in_progress");
+    expect(batch.request_counts.processing).toBe(2);
+
+    const canceled = await store.cancelBatch(batch.id);
+    expect(canceled!.processing_status).toBe("ended");
+    expect(canceled!.request_counts).toMatchObject({ processing: 0, canceled: 2 });
+    expect(canceled!.cancel_initiated_at).not.toBeNull();
+
+    const lines = (await store.getResults(batch.id)).trim().split("\n").map(line => JSON.parse(line));
+    expect(lines).toEqual([
+      { custom_id: "a", result: { type: "canceled" } },
+      { custom_id: "b", result: { type: "canceled" } }
+    ]);
+    // Their queue entries are dropped once taken
+    const processor = new BatchProcessor(store, async () => { throw new Error("canceled items never run"); });
+    for (let job = await store.nextJob(1000); job; job = await store.nextJob(1000)) await processor.processJob(job);
+    expect(await getRedis().llen(BATCH_PROCESSING_KEY)).toBe(0);
+  });
+
+  test("requeues an item whose worker died and records errors for missing requests", async () => {
+    const store = new BatchStore(getRedis());
+    const batch = await store.createBatch([
+      { custom_id: "lost", params: { model: "claude", messages: [{ role: "user", content: "1" }] } },
+      { custom_id: "gone", params: { model: "claude", messages: [{ role: "user", content: "2" }] } }
+    ]);
+    await getRedis().hdel(`${BATCH_PREFIX}${batch.id}:requests`, "1");
+    const processor = new BatchProcessor(store, async () => ({ statusCode: 200, body: { type: "message" } }), { leaseTtl: 50 });
+
+    // A worker takes the first item and dies before recording a result
+    const lost = await store.nextJob(50);
+    expect(await store.startItem(lost!.batchId, lost!.index)).toBe(true);
+    await new Promise(res => setTimeout(res, 80));
+    expect(await store.requeueStale()).toBe(1);
+
+    for (let job = await store.nextJob(50); job; job = await store.nextJob(50)) await processor.processJob(job);
+
+    const ended = await store.getBatch(batch.id);
+    expect(ended!.processing_status).toBe("ended");
+    expect(ended!.request_counts).toMatchObject({ processing: 0, succeeded: 1, errored: 1 });
+    const lines = (await store.getResults(batch.id)).trim().split("\n").map(line => JSON.parse(line));
+    expect(lines[1].result.error.error.message).toMatch(/has no stored request/);
+    expect(await getRedis().llen(BATCH_PROCESSING_KEY)).toBe(0);
+  });
+
+  test("expires batches past their deadline that nobody works on", async () => {
+    const store = new BatchStore(getRedis());
+    const batch = await store.createBatch([{ custom_id: "late", params: { model: "claude", messages: [{ role: "user", content: "1" }] } }]);
+    const record = await store.getRecord(batch.id);
+    await getRedis().set(BATCH_PREFIX + batch.id, JSON.stringify({ ...record, expires_at: new Date(Date.now() - 1000).toISOString() }));
+
+    expect(await store.expireBatches()).toEqual([batch.id]);
+    const ended = await store.getBatch(batch.id);
+    expect(ended!.processing_status).toBe("ended");
+    expect(ended!.request_counts).toMatchObject({ processing: 0, expired: 1 });
+
+    const processor = new BatchProcessor(store, async () => { throw new Error("expired items never run"); });
+    for (let job = await store.nextJob(1000); job; job = await store.nextJob(1000)) await processor.processJob(job);
+  });
+});
+
+describe("message batches", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("processes queued requests and returns JSONL results", async () => {
+    nock(BASE)
+      .post("/create_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => ({ conversation_id: `conv-batch-${body.user_message}`, request_id: `req-${body.user_message}` }));
+    nock(BASE)
+      .get("/get_answer")
+      .query(true)
+      .times(2)
+      .reply(200, (uri: string) => {
+        const conversation = new URL(uri, BASE).searchParams.get("conversation_id");
+        return { status: "finished", answer: `answer for ${conversation}` };
+      });
+
+    const created = await server.inject({
+      method: "POST",
+      url: "/v1/messages/batches",
+      payload: {
+        requests: [
+          { custom_id: "first", params: { model: "claude", max_tokens: 100, messages: [{ role: "user", content: "one" }] } },
+          { custom_id: "second", params: { model: "claude", max_tokens: 100, messages: [{ role: "user", content: "two" }] } }
+        ]
+      }
+    });
+    expect(created.statusCode).toBe(200);
+    const batch = JSON.parse(created.payload);
+    expect(batch.id).toMatch(/^msgbatch_/);
+    expect(batch.type).toBe("message_batch");
+
+    let status = batch;
+    for (let i = 0; i < 40 && status.processing_status !== "ended"; i++) {
+      await new Promise(res => setTimeout(res, 250));
+      status = JSON.parse((await server.inject({ method: "GET", url: `/v1/messages/batches/${batch.id}` })).payload);
+    }
+    expect(status.processing_status).toBe("ended");
+    expect(status.request_counts).toMatchObject({ processing: 0, succeeded: 2, errored: 0 });
+    expect(status.results_url).toBe(`/v1/messages/batches/${batch.id}/results`);
+
+    const results = await server.inject({ method: "GET", url: status.results_url });
+    const lines = results.payload.trim().split("\n").map((line: string) => JSON.parse(line));
+    expect(lines.map((line: any) => line.custom_id)).toEqual(["first", "second"]);
+    expect(lines[0].result.type).toBe("succeeded");
+    expect(lines[0].result.message.content[0].text).toBe("answer for conv-batch-one");
+    expect(lines[1].result.message.content[0].text).toBe("answer for conv-batch-two");
+
+    const list = JSON.parse((await server.inject({ method: "GET", url: "/v1/messages/batches?limit=1" })).payload);
+    expect(list.data[0].id).toBe(batch.id);
+
+    // Items ran in single-use sessions that leave nothing behind
+    const r = getRedis();
+    expect(await r.hkeys("toqan:conv_map")).not.toEqual(expect.arrayContaining([expect.stringContaining(batch.id)]));
+    expect(await r.zrange("toqan:sessions", 0, -1)).not.toEqual(expect.arrayContaining([expect.stringContaining(batch.id)]));
+    expect(await r.exists("toqan:meta:conv-batch-one", "toqan:meta:conv-batch-two")).toBe(0);
+  });
+
+  test("accepts batch bodies larger than the default body limit", async () => {
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages/batches",
+      payload: { requests: [{ custom_id: "big", params: { model: "claude", stream: true, messages: [{ role: "user", content: "x".repeat(2 * 1024 * 1024) }] } }] }
+    });
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.payload).error.message).toBe("requests.0.params.stream is not supported in batches");
+
+    // Other routes keep the default limit
+    const messages = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", messages: [{ role: "user", content: "x".repeat(2 * 1024 * 1024) }] }
+    });
+    expect(messages.statusCode).toBe(413);
+  });
+
+  test("rejects invalid batches and unknown ids", async () => {
+    const duplicate = await server.inject({
+      method: "POST",
+      url: "/v1/messages/batches",
+      payload: {
+        requests: [
+          { custom_id: "x", params: { messages: [] } },
+          { custom_id: "x", params: { messages: [] } }
+        ]
+      }
+    });
+    expect(duplicate.statusCode).toBe(400);
+    expect(JSON.parse(duplicate.payload).error.message).toBe("requests.1.custom_id is a duplicate: x");
+
+    const missing = await server.inject({ method: "GET", url: "/v1/messages/batches/msgbatch_missing" });
+    expect(missing.statusCode).toBe(404);
+    expect(JSON.parse(missing.payload).error.type).toBe("not_found_error");
+  });
+});
@@ -0,0 +1,144 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { toAnthropicRequest } from "../src/openaiCompat";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+const tools = [
+  {
+    type: "function" as const,
+    function: {
+      name: "Read",
+      description: "Read a file from disk",
+      parameters: { type: "object", properties: { file_path: { type: "string" } }, required: ["file_path"] }
+    }
+  }
+];
+
+describe("chat completions mapping", () => {
+  test("maps roles, tools, tool_choice and stop onto an Anthropic request", () => {
+    const request = toAnthropicRequest({
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "read a.txt" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "Read", arguments: '{"file_path": "a.txt"}' } }]
+        },
+        { role: "tool", tool_call_id: "call_1", content: "hello" }
+      ],
+      tools,
+      tool_choice: "required",
+      stop: "END",
+      max_tokens: 50,
+      user: "dev-1"
+    });
+
+    expect(request.system).toBe("Be brief.");
+    expect(request.messages).toEqual([
+      { role: "user", content: "read a.txt" },
+      { role: "assistant", content: [{ type: "tool_use", id: "call_1", name: "Read", input: { file_path: "a.txt" } }] },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: "hello" }] }
+    ]);
+    expect(request.tools![0]).toEqual({ name: "Read", description: "Read a file from disk", input_schema: tools[0].function.parameters });
+    expect(request.tool_choice).toEqual({ type: "any" });
+    expect(request.stop_sequences).toEqual(["END"]);
+    expect(request.max_tokens).toBe(50);
+    expect(request.metadata).toEqual({ user_id: "dev-1" });
+  });
+});
+
+describe("chat completions endpoint", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("returns choices with tool_calls and usage", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-chat");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-chat", request_id: "req-chat" });
+    nock(BASE).get("/get_answer").query(true).reply(200, {
+      status: "finished",
+      answer: 'Vou ler.\nUSE_TOOL(Read, {"file_path": "a.txt"})'
+    });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/chat/completions",
+      payload: { model: "gpt-4o", conversation_id: "sess-chat", messages: [{ role: "user", content: "read a.txt" }], tools }
+    });
+
+    expect(res.statusCode).toBe(200);
+    const body = JSON.parse(res.payload);
+    expect(body.object).toBe("chat.completion");
+    expect(body.id).toMatch(/^chatcmpl-/);
+    expect(body.model).toBe("gpt-4o");
+    expect(body.choices[0].finish_reason).toBe("tool_calls");
+    expect(body.choices[0].message.content).toBe("Vou ler.");
+    expect(body.choices[0].message.tool_calls).toHaveLength(1);
+    expect(body.choices[0].message.tool_calls[0].function).toEqual({ name: "Read", arguments: '{"file_path":"a.txt"}' });
+    expect(body.usage.total_tokens).toBe(body.usage.prompt_tokens + body.usage.completion_tokens);
+    expect(body.usage.prompt_tokens).toBeGreaterThan(0);
+  });
+
+  test("stream: true emits chat.completion.chunk events ending in [DONE]", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-chat-stream");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-chat-stream", request_id: "req-cs" });
+    const seq = [
+      { status: "processing", answer: "Olá" },
+      { status: "finished", answer: "Olá, tudo bem?" }
+    ];
+    let i = 0;
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, () => seq[Math.min(i++, seq.length - 1)]);
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/chat/completions",
+      payload: {
+        model: "gpt-4o",
+        stream: true,
+        stream_options: { include_usage: true },
+        conversation_id: "sess-chat-stream",
+        messages: [{ role: "user", content: "oi" }]
+      }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toMatch(/text\/event-stream/);
+
+    const data = res.payload
+      .split("\n\n")
+      .filter((chunk: string) => chunk.startsWith("data: "))
+      .map((chunk: string) => chunk.slice(6));
+    expect(data[data.length - 1]).toBe("[DONE]");
+
+    const chunks = data.slice(0, -1).map((chunk: string) => JSON.parse(chunk));
+    expect(chunks.every((c: any) => c.object === "chat.completion.chunk")).toBe(true);
+    expect(chunks[0].choices[0].delta.role).toBe("assistant");
+    const text = chunks.map((c: any) => c.choices[0]?.delta?.content || "").join("");
+    expect(text).toBe("Olá, tudo bem?");
+    expect(chunks.find((c: any) => c.choices[0]?.finish_reason)?.choices[0].finish_reason).toBe("stop");
+    expect(chunks[chunks.length - 1].usage.completion_tokens).toBeGreaterThan(0);
+  });
+
+  test("errors use the OpenAI envelope", async () => {
+    const res = await server.inject({ method: "POST", url: "/v1/chat/completions", payload: { model: "gpt-4o", messages: [] } });
+
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.payload)).toEqual({
+      error: { message: "messages must contain at least one user message", type: "invalid_request_error", code: null }
+    });
+  });
+});
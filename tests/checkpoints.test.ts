@@ -0,0 +1,55 @@
+import nock from "nock";
+import { getRedis } from "../src/redisClient";
+import { CheckpointStore } from "../src/checkpointStore";
+import { SmartRequestHandler, SmartRequestError } from "../src/smartRequestHandler";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("chunked request checkpoints", () => {
+  const checkpoints = new CheckpointStore(getRedis());
+  const handler = new SmartRequestHandler({
+    strategy: "chunks",
+    checkpoints,
+    chunkingOptions: { maxTokensPerChunk: 20, overlapTokens: 0, splitStrategy: "paragraph" }
+  });
+  const message = ["first part of the document", "second part of the document", "third part of the document"]
+    .map(part => `${part} `.repeat(8).trim())
+    .join("\n\n");
+
+  afterEach(() => nock.cleanAll());
+
+  test("a retry continues from the first unfinished chunk", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-ckpt", request_id: "req-1" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "noted 1" });
+    nock(BASE).post("/continue_conversation").reply(500, { error: "boom" });
+
+    const failure = await handler.handleLargeRequest(message, { sessionId: "ckpt-session" }).catch(error => error);
+    expect(failure).toBeInstanceOf(SmartRequestError);
+    expect(failure.checkpointId).toMatch(/^[0-9a-f]{64}$/);
+
+    const checkpoint = await checkpoints.get(failure.checkpointId);
+    expect(checkpoint).toMatchObject({ strategy: "chunks", conversationId: "conv-ckpt", completedChunks: 1, totalChunks: 3 });
+    expect(await checkpoints.getMessage(failure.checkpointId)).toBe(message);
+
+    // No create_conversation this time: chunks 2 and 3 and the consolidation go to the same conversation
+    const sent: string[] = [];
+    nock(BASE)
+      .post("/continue_conversation")
+      .times(3)
+      .reply(200, (_uri: string, body: any) => {
+        sent.push(body.user_message);
+        expect(body.conversation_id).toBe("conv-ckpt");
+        return { conversation_id: "conv-ckpt", request_id: `req-${sent.length + 1}` };
+      });
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, { status: "finished", answer: "final answer" });
+
+    const result = await handler.handleLargeRequest(message, { sessionId: "ckpt-session" });
+    expect(result.answer).toBe("final answer");
+    expect(result.conversationId).toBe("conv-ckpt");
+    expect(result.chunksProcessed).toBe(3);
+    expect(sent[0]).toContain("second part");
+    expect(sent[1]).toContain("third part");
+    expect(result.processingSteps.map(step => step.step)).toContain("Resume from Checkpoint");
+    expect(await checkpoints.get(failure.checkpointId)).toBeNull();
+  });
+});
@@ -54,4 +54,52 @@ describe("complete flow", () => {
     const body = JSON.parse(res.payload);
     expect(body.completion).toBe("ola");
   });
+
+  test("a turn too large for the mapped conversation carries the history into its own", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:session-big", "toqan:forks:session-big");
+
+    const created: any[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        created.push(body);
+        return { conversation_id: `conv-big-${created.length}`, request_id: `req-big-${created.length}` };
+      });
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, { status: "finished", answer: "Vou ler o log." });
+
+    const opener = { role: "user", content: "leia o log do deploy" };
+    const first = await server.inject({
+      method: "POST",
+      url: "/v1/complete",
+      payload: { model: "claude", conversation_id: "session-big", messages: [opener] }
+    });
+
+    const log = "palavra ".repeat(100000);
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/complete",
+      headers: { "x-force-strategy": "direct" },
+      payload: {
+        model: "claude",
+        conversation_id: "session-big",
+        messages: [
+          opener,
+          { role: "assistant", content: JSON.parse(first.payload).completion },
+          { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_log", content: log }] }
+        ]
+      }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(created).toHaveLength(2);
+    expect(created[1].user_message).toContain("User: leia o log do deploy");
+    expect(created[1].user_message).toContain("Assistant: Vou ler o log.");
+    expect(created[1].user_message).toContain(log.trim());
+    expect(await r.hget("toqan:conv_map", "session-big")).toBe("conv-big-2");
+
+    const forks = (await r.lrange("toqan:forks:session-big", 0, -1)).map((f: string) => JSON.parse(f));
+    expect(forks).toEqual([expect.objectContaining({ conversationId: "conv-big-1", reason: "oversized", divergedAt: 2 })]);
+  });
 });
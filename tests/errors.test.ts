@@ -0,0 +1,77 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("error envelopes", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const send = (conversationId: string, extra: any = {}) => server.inject({
+    method: "POST",
+    url: "/v1/messages",
+    payload: { model: "claude", conversation_id: conversationId, messages: [{ role: "user", content: "oi" }], ...extra }
+  });
+
+  test("invalid requests get invalid_request_error", async () => {
+    const res = await server.inject({ method: "POST", url: "/v1/messages", payload: { model: "claude", messages: [] } });
+
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.payload)).toEqual({
+      type: "error",
+      error: { type: "invalid_request_error", message: "messages must contain at least one user message" }
+    });
+  });
+
+  test("Toqan rate limits become rate_limit_error with retry-after", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(429, { error: "too many requests" }, { "Retry-After": "42" });
+
+    const res = await send("sess-rate");
+    expect(res.statusCode).toBe(429);
+    expect(res.headers["retry-after"]).toBe("42");
+    expect(JSON.parse(res.payload).error.type).toBe("rate_limit_error");
+  });
+
+  test("Toqan auth failures and outages are classified", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(401, { error: "invalid key" });
+    const auth = await send("sess-auth");
+    expect(auth.statusCode).toBe(401);
+    expect(JSON.parse(auth.payload).error.type).toBe("authentication_error");
+
+    nock(BASE).post("/create_conversation").reply(503, "unavailable");
+    const overloaded = await send("sess-overloaded");
+    expect(overloaded.statusCode).toBe(529);
+    expect(overloaded.headers["retry-after"]).toBeDefined();
+    expect(JSON.parse(overloaded.payload).error.type).toBe("overloaded_error");
+
+    nock(BASE).post("/create_conversation").reply(500, { error: "boom" });
+    const failed = await send("sess-failed");
+    expect(failed.statusCode).toBe(502);
+    expect(JSON.parse(failed.payload).error).toEqual({ type: "api_error", message: "Toqan API error (500): boom" });
+  });
+
+  test("network timeouts become timeout errors", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").replyWithError({ code: "ECONNABORTED", message: "timeout of 60000ms exceeded" });
+
+    const res = await send("sess-timeout");
+    expect(res.statusCode).toBe(504);
+    expect(JSON.parse(res.payload).error.type).toBe("timeout");
+  });
+});
@@ -0,0 +1,243 @@
+import nock from "nock";
+import FormData from "form-data";
+import { buildServer } from "../src/server";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("files API", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  function upload(form: FormData, apiKey = "key-files") {
+    return server.inject({
+      method: "POST",
+      url: "/v1/files",
+      headers: { ...form.getHeaders(), "x-api-key": apiKey },
+      payload: form.getBuffer()
+    });
+  }
+
+  test("uploads, lists, downloads and deletes files", async () => {
+    let uploads = 0;
+    nock(BASE)
+      .put("/upload_file")
+      .times(2)
+      .reply(200, () => ({ file_id: `toqan-file-${++uploads}` }));
+
+    // One file per request, like Anthropic's Files API
+    const both = new FormData();
+    both.append("file", Buffer.from("hello files"), { filename: "notes.txt", contentType: "text/plain" });
+    both.append("file", Buffer.from("%PDF-1.4"), { filename: "doc.pdf", contentType: "application/pdf" });
+    const rejected = await upload(both);
+    expect(rejected.statusCode).toBe(400);
+    expect(uploads).toBe(0);
+
+    const notesForm = new FormData();
+    notesForm.append("file", Buffer.from("hello files"), { filename: "notes.txt", contentType: "text/plain" });
+    const created = await upload(notesForm);
+    expect(created.statusCode).toBe(200);
+    const notes = JSON.parse(created.payload);
+    const docForm = new FormData();
+    docForm.append("file", Buffer.from("%PDF-1.4"), { filename: "doc.pdf", contentType: "application/pdf" });
+    const doc = JSON.parse((await upload(docForm)).payload);
+    expect(notes).toMatchObject({ type: "file", filename: "notes.txt", mime_type: "text/plain", size_bytes: 11, downloadable: true });
+    expect(notes.id).toMatch(/^file_/);
+    expect(doc.filename).toBe("doc.pdf");
+
+    const list = JSON.parse((await server.inject({ method: "GET", url: "/v1/files", headers: { "x-api-key": "key-files" } })).payload);
+    expect(list.data.map((file: any) => file.id)).toEqual([doc.id, notes.id]);
+
+    // Other API keys don't see the files
+    const foreign = await server.inject({ method: "GET", url: `/v1/files/${notes.id}`, headers: { "x-api-key": "other" } });
+    expect(foreign.statusCode).toBe(404);
+
+    const content = await server.inject({ method: "GET", url: `/v1/files/${notes.id}/content`, headers: { "x-api-key": "key-files" } });
+    expect(content.headers["content-type"]).toContain("text/plain");
+    expect(content.payload).toBe("hello files");
+
+    const deleted = await server.inject({ method: "DELETE", url: `/v1/files/${notes.id}`, headers: { "x-api-key": "key-files" } });
+    expect(JSON.parse(deleted.payload)).toEqual({ id: notes.id, type: "file_deleted" });
+    const gone = await server.inject({ method: "GET", url: `/v1/files/${notes.id}`, headers: { "x-api-key": "key-files" } });
+    expect(gone.statusCode).toBe(404);
+  });
+
+  test("retries a failed upload to Toqan", async () => {
+    nock(BASE).put("/upload_file").reply(503, { error: "busy" });
+    nock(BASE).put("/upload_file").reply(200, { file_id: "toqan-retried" });
+
+    const form = new FormData();
+    form.append("file", Buffer.from("retry me"), { filename: "retry.txt", contentType: "text/plain" });
+    const created = await upload(form);
+    expect(created.statusCode).toBe(200);
+    expect(JSON.parse(created.payload).filename).toBe("retry.txt");
+  });
+
+  test("attaches uploaded files referenced by file source blocks", async () => {
+    nock(BASE).put("/upload_file").reply(200, { file_id: "toqan-report" });
+    const form = new FormData();
+    form.append("file", Buffer.from("%PDF-1.4 report"), { filename: "report.pdf", contentType: "application/pdf" });
+    const file = JSON.parse((await upload(form)).payload);
+
+    let createBody: any;
+    nock(BASE)
+      .post("/create_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        createBody = body;
+        return { conversation_id: "conv-file-source", request_id: "req-file-source" };
+      });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "summary of the report" });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        max_tokens: 100,
+        conversation_id: "file-source-session",
+        messages: [{
+          role: "user",
+          content: [
+            { type: "document", source: { type: "file", file_id: file.id } },
+            { type: "text", text: "Summarize this report" }
+          ]
+        }]
+      }
+    });
+    expect(res.statusCode).toBe(200);
+    expect(createBody.private_user_files).toEqual([{ id: "toqan-report" }]);
+    expect(JSON.parse(res.payload).content[0].text).toBe("summary of the report");
+  });
+
+  test("rejects file source blocks for unknown files", async () => {
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        max_tokens: 100,
+        conversation_id: "unknown-file-session",
+        messages: [{ role: "user", content: [{ type: "image", source: { type: "file", file_id: "file_missing" } }] }]
+      }
+    });
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.payload).error.message).toBe("image block references an unknown file: file_missing");
+  });
+
+  test("uploads identical payloads once and attaches them once per conversation", async () => {
+    const screenshot = { type: "image", source: { type: "base64", media_type: "image/png", data: Buffer.from("same screenshot").toString("base64") } };
+    const upload = nock(BASE).put("/upload_file").once().reply(200, { file_id: "toqan-screenshot" });
+
+    const sent: any[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        sent.push(body);
+        return { conversation_id: `conv-dedupe-${sent.length}`, request_id: `req-dedupe-${sent.length}` };
+      });
+    nock(BASE)
+      .post("/continue_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        sent.push(body);
+        return { conversation_id: "conv-dedupe-1", request_id: "req-dedupe-3" };
+      });
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, { status: "finished", answer: "I see it" });
+
+    const first = { role: "user", content: [screenshot, { type: "text", text: "what is this?" }] };
+    const ask = (sessionId: string, messages: any[]) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", max_tokens: 100, conversation_id: sessionId, messages }
+    });
+
+    await ask("dedupe-a", [first]);
+    await ask("dedupe-b", [first]);
+    await ask("dedupe-a", [
+      first,
+      { role: "assistant", content: "I see it" },
+      { role: "user", content: [screenshot, { type: "text", text: "and now?" }] }
+    ]);
+
+    expect(upload.isDone()).toBe(true);
+    expect(sent[0].private_user_files).toEqual([{ id: "toqan-screenshot" }]);
+    expect(sent[1].private_user_files).toEqual([{ id: "toqan-screenshot" }]);
+    expect(sent[2].conversation_id).toBe("conv-dedupe-1");
+    expect(sent[2].private_user_files).toBeUndefined();
+  });
+});
+
+describe("files across models", () => {
+  const SONNET = "https://sonnet.toqan.test/api";
+  const HAIKU = "https://haiku.toqan.test/api";
+  let server: any;
+  beforeAll(async () => {
+    process.env.TOQAN_MODELS = JSON.stringify([
+      { id: "claude-sonnet", base_url: SONNET, api_key: "key-sonnet" },
+      { id: "claude-haiku", base_url: HAIKU, api_key: "key-haiku" }
+    ]);
+    server = buildServer();
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    delete process.env.TOQAN_MODELS;
+    await server.close();
+  });
+
+  test("uploads to the named model and re-uploads for turns on another model", async () => {
+    nock(HAIKU).put("/upload_file").reply(200, { file_id: "toqan-haiku-notes" });
+    const form = new FormData();
+    form.append("file", Buffer.from("notes for two models"), { filename: "notes.txt", contentType: "text/plain" });
+    const created = await server.inject({
+      method: "POST",
+      url: "/v1/files?model=claude-haiku",
+      headers: { ...form.getHeaders(), "x-api-key": "key-models" },
+      payload: form.getBuffer()
+    });
+    expect(created.statusCode).toBe(200);
+    const file = JSON.parse(created.payload);
+
+    // The turn runs on sonnet, whose backend has never seen the file
+    const sonnetUpload = nock(SONNET).put("/upload_file").reply(200, { file_id: "toqan-sonnet-notes" });
+    let createBody: any;
+    nock(SONNET).post("/create_conversation").reply(200, (_uri: string, body: any) => {
+      createBody = body;
+      return { conversation_id: "conv-sonnet-files", request_id: "req-sonnet-files" };
+    });
+    nock(SONNET).get("/get_answer").query(true).reply(200, { status: "finished", answer: "read it" });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude-sonnet",
+        max_tokens: 100,
+        conversation_id: "files-across-models",
+        file_ids: [file.id],
+        messages: [{ role: "user", content: "Read this" }]
+      }
+    });
+    expect(res.statusCode).toBe(200);
+    expect(sonnetUpload.isDone()).toBe(true);
+    expect(createBody.private_user_files).toEqual([{ id: "toqan-sonnet-notes" }]);
+  });
+
+  test("rejects uploads for unknown models", async () => {
+    const form = new FormData();
+    form.append("file", Buffer.from("x"), { filename: "x.txt", contentType: "text/plain" });
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/files",
+      headers: { ...form.getHeaders(), "x-model": "gpt-4" },
+      payload: form.getBuffer()
+    });
+    expect(res.statusCode).toBe(404);
+  });
+});
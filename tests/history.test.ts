@@ -0,0 +1,280 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("conversation history", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("replays earlier turns when the session has no Toqan conversation", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    let created: any;
+    nock(BASE)
+      .post("/create_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        created = body;
+        return { conversation_id: "conv-replay", request_id: "req-replay" };
+      });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "Seu nome é Ana." });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        conversation_id: "sess-replay",
+        messages: [
+          { role: "user", content: "Meu nome é Ana." },
+          { role: "assistant", content: [{ type: "text", text: "Prazer, Ana!" }] },
+          { role: "user", content: "Qual é o meu nome?" }
+        ]
+      }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(created.user_message).toMatch(/User: Meu nome é Ana\./);
+    expect(created.user_message).toMatch(/Assistant: Prazer, Ana!/);
+    expect(created.user_message).toMatch(/Qual é o meu nome\?$/);
+    expect(JSON.parse(res.payload).content[0].text).toBe("Seu nome é Ana.");
+  });
+
+  test("consecutive turns without conversation_id share one Toqan conversation", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-stable", request_id: "req-stable-1" });
+    let continued: any;
+    nock(BASE)
+      .post("/continue_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        continued = body;
+        return { conversation_id: "conv-stable", request_id: "req-stable-2" };
+      });
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, { status: "finished", answer: "ok" });
+
+    const system = [{ type: "text", text: "You are helpful.", cache_control: { type: "ephemeral" } }];
+    const metadata = { user_id: "user_abc_account__session_123" };
+    const first = { role: "user", content: [{ type: "text", text: "oi", cache_control: { type: "ephemeral" } }] };
+
+    const turn1 = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", system, metadata, messages: [first] }
+    });
+    const turn2 = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        system,
+        metadata,
+        messages: [
+          { role: "user", content: [{ type: "text", text: "oi" }] },
+          { role: "assistant", content: [{ type: "text", text: "ok" }] },
+          { role: "user", content: "tudo bem?" }
+        ]
+      }
+    });
+
+    expect(turn1.statusCode).toBe(200);
+    expect(turn2.statusCode).toBe(200);
+    expect(continued.conversation_id).toBe("conv-stable");
+    expect(continued.user_message).toBe("tudo bem?");
+  });
+
+  test("keeps apart independent chats that open with the same message", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    const created: any[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        created.push(body);
+        return { conversation_id: `conv-same-${created.length}`, request_id: `req-same-c${created.length}` };
+      });
+    const continued: any[] = [];
+    nock(BASE)
+      .post("/continue_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        continued.push(body);
+        return { conversation_id: body.conversation_id, request_id: `req-same-n${continued.length}` };
+      });
+    for (const answer of ["Olá! Sobre o que vamos falar?", "Oi! Em que posso ajudar?", "ok", "ok"]) {
+      nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer });
+    }
+
+    const send = (messages: any[]) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", system: "You are helpful.", messages }
+    });
+    const opener = { role: "user", content: "olá" };
+
+    const chatA = await send([opener]);
+    const chatB = await send([opener]);
+    const replyA = JSON.parse(chatA.payload).content;
+    const replyB = JSON.parse(chatB.payload).content;
+    await send([opener, { role: "assistant", content: replyA }, { role: "user", content: "fale de gatos" }]);
+    await send([opener, { role: "assistant", content: replyB }, { role: "user", content: "fale de cães" }]);
+
+    expect(created).toHaveLength(2);
+    expect(continued.map(body => [body.conversation_id, body.user_message])).toEqual([
+      ["conv-same-1", "fale de gatos"],
+      ["conv-same-2", "fale de cães"]
+    ]);
+  });
+
+  test("forks a fresh conversation when the client edits an earlier turn", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-fork", "toqan:forks:sess-fork");
+
+    const created: any[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        created.push(body);
+        return { conversation_id: `conv-fork-${created.length}`, request_id: `req-fork-c${created.length}` };
+      });
+    nock(BASE).post("/continue_conversation").reply(200, { conversation_id: "conv-fork-1", request_id: "req-fork-2" });
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, { status: "finished", answer: "ok" });
+
+    const send = (messages: any[]) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", conversation_id: "sess-fork", messages }
+    });
+
+    await send([{ role: "user", content: "primeira" }]);
+    await send([
+      { role: "user", content: "primeira" },
+      { role: "assistant", content: [{ type: "text", text: "ok" }] },
+      { role: "user", content: "segunda" }
+    ]);
+    const edited = await send([
+      { role: "user", content: "primeira" },
+      { role: "assistant", content: [{ type: "text", text: "ok" }] },
+      { role: "user", content: "segunda (editada)" }
+    ]);
+
+    expect(edited.statusCode).toBe(200);
+    expect(created).toHaveLength(2);
+    expect(created[1].user_message).toMatch(/User: primeira/);
+    expect(created[1].user_message).not.toMatch(/User: segunda\n/);
+    expect(created[1].user_message).toMatch(/segunda \(editada\)$/);
+    expect(await r.hget("toqan:conv_map", "sess-fork")).toBe("conv-fork-2");
+
+    const forks = (await r.lrange("toqan:forks:sess-fork", 0, -1)).map((f: string) => JSON.parse(f));
+    expect(forks).toEqual([expect.objectContaining({ conversationId: "conv-fork-1", divergedAt: 2 })]);
+  });
+
+  test("forks when the client edits or retries the first turn", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-first", "toqan:forks:sess-first");
+
+    const created: any[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .times(3)
+      .reply(200, (_uri: string, body: any) => {
+        created.push(body);
+        return { conversation_id: `conv-first-${created.length}`, request_id: `req-first-${created.length}` };
+      });
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, { status: "finished", answer: "ok" });
+
+    const send = (content: string) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", conversation_id: "sess-first", messages: [{ role: "user", content }] }
+    });
+
+    await send("hello");
+    const edited = await send("completely different question");
+    const retried = await send("completely different question");
+
+    expect(edited.statusCode).toBe(200);
+    expect(retried.statusCode).toBe(200);
+    expect(created.map(body => body.user_message)).toEqual(["hello", "completely different question", "completely different question"]);
+    expect(await r.hget("toqan:conv_map", "sess-first")).toBe("conv-first-3");
+
+    const forks = (await r.lrange("toqan:forks:sess-first", 0, -1)).map((f: string) => JSON.parse(f));
+    expect(forks).toEqual([
+      expect.objectContaining({ conversationId: "conv-first-1", divergedAt: 0 }),
+      expect.objectContaining({ conversationId: "conv-first-2", divergedAt: 0 })
+    ]);
+  });
+
+  test("forwards tool results and uploads images nested inside them", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-tools");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-tools", request_id: "req-tools-1" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "USE_TOOL(Screenshot, {\"path\": \"/tmp\"})" });
+
+    const first = { role: "user", content: "tire um print" };
+    const turn1 = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", conversation_id: "sess-tools", messages: [first] }
+    });
+    const toolUse = JSON.parse(turn1.payload).content.find((b: any) => b.type === "tool_use");
+    expect(toolUse.name).toBe("Screenshot");
+
+    nock(BASE).put("/upload_file").reply(200, { file_id: "file-shot" });
+    let continued: any;
+    nock(BASE)
+      .post("/continue_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        continued = body;
+        return { conversation_id: "conv-tools", request_id: "req-tools-2" };
+      });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "Vejo a tela." });
+
+    const turn2 = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        conversation_id: "sess-tools",
+        messages: [
+          first,
+          { role: "assistant", content: [toolUse] },
+          {
+            role: "user",
+            content: [
+              {
+                type: "tool_result",
+                tool_use_id: toolUse.id,
+                content: [
+                  { type: "text", text: "captured" },
+                  { type: "image", source: { type: "base64", media_type: "image/png", data: Buffer.from("png").toString("base64") } }
+                ]
+              },
+              { type: "text", text: "o que aparece?" }
+            ]
+          }
+        ]
+      }
+    });
+
+    expect(turn2.statusCode).toBe(200);
+    expect(continued.user_message).toContain(`[Result of tool Screenshot (id ${toolUse.id})]`);
+    expect(continued.user_message).toContain("captured");
+    expect(continued.user_message).toContain("o que aparece?");
+    expect(continued.private_user_files).toEqual([{ id: "file-shot" }]);
+  });
+});
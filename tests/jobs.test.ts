@@ -0,0 +1,106 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("async jobs", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("runs the request in the background and replays its progress", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-job", request_id: "req-job" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "job answer" });
+
+    const created = await server.inject({
+      method: "POST",
+      url: "/v1/jobs",
+      payload: { model: "claude", conversation_id: "job-session", messages: [{ role: "user", content: "large input" }] }
+    });
+    expect(created.statusCode).toBe(202);
+    const job = JSON.parse(created.payload);
+    expect(job.id).toMatch(/^job_/);
+    expect(job.status).toBe("queued");
+
+    let status = job;
+    for (let i = 0; i < 40 && status.status !== "succeeded" && status.status !== "failed"; i++) {
+      await new Promise(res => setTimeout(res, 100));
+      status = JSON.parse((await server.inject({ method: "GET", url: `/v1/jobs/${job.id}` })).payload);
+    }
+    expect(status.status).toBe("succeeded");
+    expect(status.result.answer).toBe("job answer");
+    expect(status.result.conversationId).toBe("conv-job");
+    expect(status.processingSteps.map((step: any) => step.step)).toEqual(
+      expect.arrayContaining(["Strategy Selection", "Create Conversation", "Poll for Answer"])
+    );
+
+    const events = await server.inject({ method: "GET", url: `/v1/jobs/${job.id}/events` });
+    expect(events.headers["content-type"]).toContain("text/event-stream");
+    const updates = events.payload
+      .split("\n")
+      .filter((line: string) => line.startsWith("data: "))
+      .map((line: string) => JSON.parse(line.slice(6)));
+    expect(updates.some((update: any) => update.progress?.step === "processing_step")).toBe(true);
+    expect(updates.some((update: any) => update.progress?.type === "complete")).toBe(true);
+    expect(updates[updates.length - 1]).toEqual({ done: true });
+  });
+
+  test("carries the session's history and the turn's files into the job's conversation", async () => {
+    const created: any[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        created.push(body);
+        return { conversation_id: `conv-job-history-${created.length}`, request_id: `req-job-history-${created.length}` };
+      });
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, { status: "finished", answer: "Anotado." });
+    nock(BASE).put("/upload_file").reply(200, { file_id: "file-job-chart" });
+
+    const run = async (messages: any[]) => {
+      const queued = await server.inject({
+        method: "POST",
+        url: "/v1/jobs",
+        payload: { model: "claude", conversation_id: "job-history", messages }
+      });
+      let status = JSON.parse(queued.payload);
+      for (let i = 0; i < 40 && status.status !== "succeeded" && status.status !== "failed"; i++) {
+        await new Promise(res => setTimeout(res, 100));
+        status = JSON.parse((await server.inject({ method: "GET", url: `/v1/jobs/${status.id}` })).payload);
+      }
+      return status;
+    };
+
+    const opener = { role: "user", content: "Meu projeto se chama Atlas." };
+    expect((await run([opener])).status).toBe("succeeded");
+    const second = await run([
+      opener,
+      { role: "assistant", content: "Anotado." },
+      {
+        role: "user",
+        content: [
+          { type: "image", source: { type: "base64", media_type: "image/png", data: Buffer.from("png").toString("base64") } },
+          { type: "text", text: "Analise o gráfico do Atlas." }
+        ]
+      }
+    ]);
+
+    expect(second.status).toBe("succeeded");
+    expect(created).toHaveLength(2);
+    expect(created[1].user_message).toContain("User: Meu projeto se chama Atlas.");
+    expect(created[1].user_message).toContain("Analise o gráfico do Atlas.");
+    expect(created[1].private_user_files).toEqual([{ id: "file-job-chart" }]);
+  });
+
+  test("returns 404 for unknown jobs", async () => {
+    const missing = await server.inject({ method: "GET", url: "/v1/jobs/job_missing" });
+    expect(missing.statusCode).toBe(404);
+    expect(JSON.parse(missing.payload).error.type).toBe("not_found_error");
+  });
+});
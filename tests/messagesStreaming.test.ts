@@ -0,0 +1,68 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { parseEvents } from "./sseEvents";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("messages streaming", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("stream: true emits the Anthropic event sequence", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-msg-stream", request_id: "req-ms" });
+
+    const seq = [
+      { status: "processing", answer: "Olá" },
+      { status: "processing", answer: "Olá, vou ler. USE_TOOL(Read, {\"file_path\": " },
+      { status: "finished", answer: "Olá, vou ler. USE_TOOL(Read, {\"file_path\": \"/tmp/a.txt\"})" }
+    ];
+    let i = 0;
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, () => {
+      const resp = seq[i] || seq[seq.length - 1];
+      i++;
+      return resp;
+    });
+
+    const payload = {
+      model: "claude-sonnet",
+      stream: true,
+      messages: [{ role: "user", content: "leia o arquivo" }],
+      conversation_id: "sess-msg-stream"
+    };
+    const res = await server.inject({ method: "POST", url: "/v1/messages", payload });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toMatch(/text\/event-stream/);
+
+    const events = parseEvents(res.payload);
+    const names = events.map((e) => e.event);
+    expect(names[0]).toBe("message_start");
+    expect(names).toContain("ping");
+    expect(names.slice(-2)).toEqual(["message_delta", "message_stop"]);
+
+    const text = events
+      .filter((e) => e.data.delta?.type === "text_delta")
+      .map((e) => e.data.delta.text)
+      .join("");
+    expect(text).toBe("Olá, vou ler.");
+    expect(text).not.toMatch(/USE_TOOL/);
+
+    const toolStart = events.find((e) => e.event === "content_block_start" && e.data.content_block.type === "tool_use");
+    expect(toolStart?.data.content_block.name).toBe("Read");
+    const jsonDelta = events.find((e) => e.data.delta?.type === "input_json_delta");
+    expect(JSON.parse(jsonDelta!.data.delta.partial_json)).toEqual({ file_path: "/tmp/a.txt" });
+
+    const messageDelta = events.find((e) => e.event === "message_delta");
+    expect(messageDelta!.data.delta.stop_reason).toBe("tool_use");
+  });
+});
@@ -0,0 +1,67 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { ModelRegistry, runWithModel } from "../src/modelRegistry";
+import { createConversation } from "../src/toqanClient";
+
+describe("model registry", () => {
+  const registry = new ModelRegistry([
+    { id: "claude-sonnet-4", aliases: ["claude-sonnet-4-*"], base_url: "https://sonnet.toqan.test/api/", api_key: "key-sonnet", strategy: "chunks", poll_timeout: 90 },
+    { id: "claude-haiku", base_url: "https://haiku.toqan.test/api", api_key: "key-haiku" }
+  ]);
+
+  test("resolves ids and aliases, and rejects unknown models", () => {
+    const sonnet = registry.resolve("claude-sonnet-4-20250514");
+    expect(sonnet.id).toBe("claude-sonnet-4");
+    expect(sonnet.baseUrl).toBe("https://sonnet.toqan.test/api");
+    expect(sonnet.strategy).toBe("chunks");
+    expect(sonnet.pollTimeout).toBe(90);
+    expect(registry.resolve().id).toBe("claude-sonnet-4");
+    expect(() => registry.resolve("gpt-4")).toThrow("model: gpt-4");
+  });
+
+  test("reads an object keyed by model id from TOQAN_MODELS", () => {
+    const fromEnv = ModelRegistry.fromEnv({ TOQAN_MODELS: JSON.stringify({ "claude-opus": { display_name: "Opus" } }) });
+    expect(fromEnv.list().map(m => [m.id, m.displayName])).toEqual([["claude-opus", "Opus"]]);
+    expect(fromEnv.get("claude-sonnet")).toBeNull();
+  });
+
+  test("sends Toqan calls to the current model's backend and key", async () => {
+    const scope = nock("https://haiku.toqan.test/api", { reqheaders: { "x-api-key": "key-haiku" } })
+      .post("/create_conversation")
+      .reply(200, { conversation_id: "conv-haiku", request_id: "req-haiku" });
+
+    const resp = await runWithModel(registry.resolve("claude-haiku"), () => createConversation("oi"));
+    expect(resp.conversation_id).toBe("conv-haiku");
+    expect(scope.isDone()).toBe(true);
+  });
+});
+
+describe("models endpoints", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("lists models in the Anthropic shape for Anthropic clients", async () => {
+    const res = await server.inject({ method: "GET", url: "/v1/models", headers: { "anthropic-version": "2023-06-01" } });
+
+    expect(res.statusCode).toBe(200);
+    const body = JSON.parse(res.payload);
+    expect(body.data[0]).toMatchObject({ type: "model", id: "claude-3-sonnet-20240229" });
+    expect(body.has_more).toBe(false);
+    expect(body.first_id).toBe("claude-3-sonnet-20240229");
+  });
+
+  test("lists models in the OpenAI shape otherwise", async () => {
+    const res = await server.inject({ method: "GET", url: "/v1/models" });
+
+    const body = JSON.parse(res.payload);
+    expect(body.object).toBe("list");
+    expect(body.data[0]).toMatchObject({ id: "claude-3-sonnet-20240229", object: "model", owned_by: "toqan" });
+  });
+});
@@ -0,0 +1,90 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { SessionQueue, QUEUE_PREFIX } from "../src/sessionQueue";
+import { BridgeError } from "../src/errors";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("session queue", () => {
+  const queue = new SessionQueue(getRedis(), { maxQueued: 2, maxWait: 300, leaseTtl: 200, pollInterval: 5 });
+
+  afterEach(() => nock.cleanAll());
+
+  test("runs turns of a session in arrival order", async () => {
+    const order: string[] = [];
+    const first = await queue.acquire("queue-order");
+    const second = queue.acquire("queue-order").then(lease => { order.push("second"); return lease; });
+
+    await new Promise((res) => setTimeout(res, 30));
+    expect(order).toEqual([]);
+
+    order.push("first");
+    await first.release();
+    await (await second).release();
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  test("answers 429 when the queue is full or the wait limit is reached", async () => {
+    const running = await queue.acquire("queue-full");
+    const waiting = queue.acquire("queue-full").catch(error => error);
+
+    const full = await queue.acquire("queue-full").catch(error => error);
+    expect(full).toBeInstanceOf(BridgeError);
+    expect(full.statusCode).toBe(429);
+    expect(full.type).toBe("rate_limit_error");
+    expect(full.retryAfter).toBeGreaterThan(0);
+
+    const timedOut = await waiting;
+    expect(timedOut.statusCode).toBe(429);
+    expect(timedOut.message).toMatch(/Timed out/);
+    await running.release();
+  });
+
+  test("drops the turn of a replica whose lease expired", async () => {
+    await getRedis().rpush(QUEUE_PREFIX + "queue-stale", "ghost");
+    const lease = await queue.acquire("queue-stale");
+    expect(await getRedis().lrange(QUEUE_PREFIX + "queue-stale", 0, -1)).toEqual([lease.ticket]);
+    await lease.release();
+  });
+
+  test("serializes concurrent /v1/messages turns of one session", async () => {
+    const server = buildServer();
+    await server.ready();
+
+    const calls: string[] = [];
+    nock(BASE).post("/create_conversation").reply(200, () => {
+      calls.push("create");
+      return { conversation_id: "conv-queue", request_id: "req-q1" };
+    });
+    nock(BASE).get("/get_answer").query({ conversation_id: "conv-queue", request_id: "req-q1" }).delay(200).reply(200, () => {
+      calls.push("answer 1");
+      return { status: "finished", answer: "one" };
+    });
+    nock(BASE).post("/continue_conversation").reply(200, () => {
+      calls.push("continue");
+      return { conversation_id: "conv-queue", request_id: "req-q2" };
+    });
+    nock(BASE).get("/get_answer").query({ conversation_id: "conv-queue", request_id: "req-q2" }).reply(200, () => {
+      calls.push("answer 2");
+      return { status: "finished", answer: "two" };
+    });
+
+    const ask = (messages: any[]) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", max_tokens: 100, conversation_id: "queue-concurrent", messages }
+    });
+    // The second turn carries the first one and its answer, as the client sends it
+    const first = { role: "user", content: "first question" };
+    const [one, two] = await Promise.all([
+      ask([first]),
+      ask([first, { role: "assistant", content: [{ type: "text", text: "one" }] }, { role: "user", content: "second question" }])
+    ]);
+
+    expect(JSON.parse(one.payload).content[0].text).toBe("one");
+    expect(JSON.parse(two.payload).content[0].text).toBe("two");
+    expect(calls).toEqual(["create", "answer 1", "continue", "answer 2"]);
+    await server.close();
+  });
+});
@@ -0,0 +1,185 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { ACTIVE_PREFIX, HISTORY_PREFIX, META_PREFIX, SESSION_INDEX_KEY, SESSION_NAMES_KEY } from "../src/sessionStore";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("sessions API", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.CONVERSATION_TOKEN_BUDGET;
+  });
+
+  const ask = (messages: any[]) => server.inject({
+    method: "POST",
+    url: "/v1/messages",
+    payload: { model: "claude", max_tokens: 100, conversation_id: "sessions-api", messages }
+  });
+
+  test("reports turns, usage and strategy, renames and resets a session", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-sessions", request_id: "req-s1" });
+    nock(BASE).post("/continue_conversation").reply(200, { conversation_id: "conv-sessions", request_id: "req-s2" });
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, { status: "finished", answer: "ok" });
+
+    const first = { role: "user", content: "hello there" };
+    await ask([first]);
+    await ask([first, { role: "assistant", content: [{ type: "text", text: "ok" }] }, { role: "user", content: "again" }]);
+
+    const session = JSON.parse((await server.inject({ method: "GET", url: "/v1/sessions/sessions-api" })).payload);
+    expect(session).toMatchObject({
+      id: "sessions-api",
+      type: "session",
+      name: null,
+      conversation_id: "conv-sessions",
+      turns: 2,
+      strategy: "direct"
+    });
+    expect(session.usage.input_tokens).toBeGreaterThan(0);
+    expect(session.usage.output_tokens).toBeGreaterThan(0);
+    expect(session.strategy_history).toEqual([expect.objectContaining({ strategy: "direct", turn: 1 })]);
+
+    const renamed = await server.inject({ method: "POST", url: "/v1/sessions/sessions-api/rename", payload: { name: "Greeting" } });
+    expect(JSON.parse(renamed.payload).name).toBe("Greeting");
+
+    const list = JSON.parse((await server.inject({ method: "GET", url: "/v1/sessions?limit=1" })).payload);
+    expect(list.data[0].id).toBe("sessions-api");
+    expect(list.first_id).toBe("sessions-api");
+
+    const deleted = await server.inject({ method: "DELETE", url: "/v1/sessions/sessions-api" });
+    expect(JSON.parse(deleted.payload)).toEqual({ id: "sessions-api", type: "session_deleted" });
+    const gone = await server.inject({ method: "GET", url: "/v1/sessions/sessions-api" });
+    expect(gone.statusCode).toBe(404);
+    expect(JSON.parse(gone.payload).error.type).toBe("not_found_error");
+  });
+
+  test("validates renames", async () => {
+    const res = await server.inject({ method: "POST", url: "/v1/sessions/unknown/rename", payload: { name: "" } });
+    expect(res.statusCode).toBe(400);
+  });
+
+  test("rotates a conversation past its token budget into a summarized one", async () => {
+    const send = (messages: any[]) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", max_tokens: 100, conversation_id: "sessions-rotate", system: "Be terse.", messages }
+    });
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-full", request_id: "req-r1" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "ok" });
+    const first = { role: "user", content: "remember the number 42" };
+    await send([first]);
+
+    process.env.CONVERSATION_TOKEN_BUDGET = "1";
+    let seed = "";
+    let continued = "";
+    nock(BASE).post("/continue_conversation", (body: any) => body.conversation_id === "conv-full")
+      .reply(200, { conversation_id: "conv-full", request_id: "req-summary" });
+    nock(BASE).get("/get_answer").query({ conversation_id: "conv-full", request_id: "req-summary" })
+      .reply(200, { status: "finished", answer: "The user asked to remember 42." });
+    nock(BASE).post("/create_conversation", (body: any) => { seed = body.user_message; return true; })
+      .reply(200, { conversation_id: "conv-next", request_id: "req-seed" });
+    nock(BASE).get("/get_answer").query({ conversation_id: "conv-next", request_id: "req-seed" })
+      .reply(200, { status: "finished", answer: "OK" });
+    nock(BASE).post("/continue_conversation", (body: any) => { continued = body.conversation_id; return true; })
+      .reply(200, { conversation_id: "conv-next", request_id: "req-r2" });
+    nock(BASE).get("/get_answer").query({ conversation_id: "conv-next", request_id: "req-r2" })
+      .reply(200, { status: "finished", answer: "42" });
+
+    const res = await send([first, { role: "assistant", content: [{ type: "text", text: "ok" }] }, { role: "user", content: "which number?" }]);
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res.payload).content[0].text).toBe("42");
+    expect(seed).toContain("Be terse.");
+    expect(seed).toContain("The user asked to remember 42.");
+    expect(continued).toBe("conv-next");
+
+    const session = JSON.parse((await server.inject({ method: "GET", url: "/v1/sessions/sessions-rotate" })).payload);
+    expect(session.conversation_id).toBe("conv-next");
+    expect(session.forks).toEqual([expect.objectContaining({ conversationId: "conv-full", reason: "rotated", divergedAt: 2 })]);
+    expect(session.turns).toBe(2);
+  });
+
+  test("drops idle sessions from the index along with their names", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-stale", request_id: "req-st1" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "ok" });
+    await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", max_tokens: 100, conversation_id: "sessions-stale", messages: [{ role: "user", content: "hello stale" }] }
+    });
+    await server.inject({ method: "POST", url: "/v1/sessions/sessions-stale/rename", payload: { name: "Stale" } });
+
+    const r = getRedis();
+    expect(await r.ttl(META_PREFIX + "conv-stale")).toBeGreaterThan(0);
+
+    // Nothing happened in the session for two days
+    const twoDaysAgo = Date.now() - 2 * 24 * 60 * 60 * 1000;
+    await r.del(ACTIVE_PREFIX + "sessions-stale");
+    const meta = JSON.parse((await r.get(META_PREFIX + "conv-stale"))!);
+    await r.set(META_PREFIX + "conv-stale", JSON.stringify({ ...meta, updated_at: new Date(twoDaysAgo).toISOString() }));
+    await r.zadd(SESSION_INDEX_KEY, twoDaysAgo, "sessions-stale");
+
+    // Opening another session prunes it
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-newer", request_id: "req-st2" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "ok" });
+    await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", max_tokens: 100, conversation_id: "sessions-newer", messages: [{ role: "user", content: "hello" }] }
+    });
+
+    expect(await r.zscore(SESSION_INDEX_KEY, "sessions-stale")).toBeNull();
+    expect(await r.hget(SESSION_NAMES_KEY, "sessions-stale")).toBeNull();
+    expect(await r.hget("toqan:conv_map", "sessions-stale")).toBeNull();
+    const list = JSON.parse((await server.inject({ method: "GET", url: "/v1/sessions?limit=100" })).payload);
+    expect(list.data.map((session: any) => session.id)).toContain("sessions-newer");
+    expect(list.data.map((session: any) => session.id)).not.toContain("sessions-stale");
+  });
+
+  test("replays the history of a session that was idle past its TTL", async () => {
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-idle", request_id: "req-i1" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "ok" });
+    const first = { role: "user", content: "hello idle" };
+    const send = (messages: any[]) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", max_tokens: 100, conversation_id: "sessions-idle", messages }
+    });
+    await send([first]);
+
+    const r = getRedis();
+    expect(await r.ttl(ACTIVE_PREFIX + "sessions-idle")).toBeGreaterThan(0);
+    expect(await r.ttl(HISTORY_PREFIX + "sessions-idle")).toBeGreaterThan(0);
+
+    // The activity key lapsed: the last turn was two days ago
+    await r.del(ACTIVE_PREFIX + "sessions-idle");
+    const meta = JSON.parse((await r.get(META_PREFIX + "conv-idle"))!);
+    await r.set(META_PREFIX + "conv-idle", JSON.stringify({ ...meta, updated_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString() }));
+
+    let replayed = "";
+    nock(BASE).post("/create_conversation", (body: any) => { replayed = body.user_message; return true; })
+      .reply(200, { conversation_id: "conv-fresh", request_id: "req-i2" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "welcome back" });
+
+    const res = await send([first, { role: "assistant", content: [{ type: "text", text: "ok" }] }, { role: "user", content: "still there?" }]);
+    expect(res.statusCode).toBe(200);
+    expect(replayed).toContain("hello idle");
+    expect(replayed).toContain("still there?");
+
+    const session = JSON.parse((await server.inject({ method: "GET", url: "/v1/sessions/sessions-idle" })).payload);
+    expect(session.conversation_id).toBe("conv-fresh");
+    expect(session.forks).toEqual([]);
+    // The old conversation's record is kept
+    expect(await r.get(META_PREFIX + "conv-idle")).not.toBeNull();
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Anthropic SSE events (event: / data: pairs) of a streamed response body
+ */
+export function parseEvents(raw: string) {
+  return raw
+    .split("\n\n")
+    .filter((chunk) => chunk.startsWith("event: "))
+    .map((chunk) => {
+      const [eventLine, dataLine] = chunk.split("\n");
+      return { event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) };
+    });
+}
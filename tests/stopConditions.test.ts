@@ -0,0 +1,102 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { parseEvents } from "./sseEvents";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("stop conditions", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("messages are cut at the first stop sequence", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-stop", request_id: "req-stop" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "um, dois, três END quatro" });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        conversation_id: "sess-stop",
+        stop_sequences: ["###", "END"],
+        messages: [{ role: "user", content: "conte" }]
+      }
+    });
+
+    const body = JSON.parse(res.payload);
+    expect(body.content).toEqual([{ type: "text", text: "um, dois, três" }]);
+    expect(body.stop_reason).toBe("stop_sequence");
+    expect(body.stop_sequence).toBe("END");
+  });
+
+  test("streamed messages never send text past a stop sequence", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-stop-stream", request_id: "req-stop-s" });
+    const seq = [
+      { status: "processing", answer: "linha um\nEN" },
+      { status: "processing", answer: "linha um\nEND\nlinha dois" },
+      { status: "finished", answer: "linha um\nEND\nlinha dois" }
+    ];
+    let i = 0;
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, () => seq[Math.min(i++, seq.length - 1)]);
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        stream: true,
+        conversation_id: "sess-stop-stream",
+        stop_sequences: ["END"],
+        messages: [{ role: "user", content: "duas linhas" }]
+      }
+    });
+
+    const events = parseEvents(res.payload);
+    const text = events
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.text)
+      .join("");
+    expect(text).toBe("linha um");
+    const delta = events.find((e) => e.event === "message_delta")!;
+    expect(delta.data.delta).toEqual({ stop_reason: "stop_sequence", stop_sequence: "END" });
+  });
+
+  test("completions are truncated at max_tokens", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-max", request_id: "req-max" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "palavra ".repeat(200).trim() });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/complete",
+      payload: {
+        model: "claude",
+        conversation_id: "sess-max",
+        max_tokens: 20,
+        messages: [{ role: "user", content: "repita" }]
+      }
+    });
+
+    const body = JSON.parse(res.payload);
+    expect(body.stop_reason).toBe("max_tokens");
+    expect(body.completion.length).toBeGreaterThan(0);
+    expect(body.completion.length).toBeLessThan(200);
+    expect("palavra ".repeat(200)).toContain(body.completion);
+  });
+});
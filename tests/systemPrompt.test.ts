@@ -0,0 +1,60 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("system prompt", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("sent on create and re-sent only when it changes", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    const sentMessages: string[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        sentMessages.push(body.user_message);
+        return { conversation_id: "conv-sys", request_id: "req-sys-1" };
+      });
+    nock(BASE)
+      .post("/continue_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        sentMessages.push(body.user_message);
+        return { conversation_id: "conv-sys", request_id: `req-sys-${sentMessages.length}` };
+      });
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, { status: "finished", answer: "ok" });
+
+    // Each turn carries the chat so far, as clients send it
+    const history: any[] = [];
+    const send = async (system: any, content: string) => {
+      history.push({ role: "user", content });
+      const res = await server.inject({
+        method: "POST",
+        url: "/v1/messages",
+        payload: { model: "claude", system, conversation_id: "sess-sys", messages: [...history] }
+      });
+      history.push({ role: "assistant", content: JSON.parse(res.payload).content });
+      return res;
+    };
+
+    expect((await send("You are a pirate.", "oi")).statusCode).toBe(200);
+    expect((await send([{ type: "text", text: "You are a pirate." }], "tudo bem?")).statusCode).toBe(200);
+    expect((await send("You are a poet.", "e agora?")).statusCode).toBe(200);
+
+    expect(sentMessages[0]).toMatch(/You are a pirate\./);
+    expect(sentMessages[0]).toMatch(/oi$/);
+    expect(sentMessages[1]).toBe("tudo bem?");
+    expect(sentMessages[2]).toMatch(/Updated System Instructions[\s\S]*You are a poet\./);
+  });
+});
@@ -0,0 +1,124 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { parseEvents } from "./sseEvents";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("thinking", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const answer = "<think>O usuário quer uma saudação.</think>\nOlá!";
+
+  test("returns thinking blocks only when the request enables thinking", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").times(2).reply(200, { conversation_id: "conv-think", request_id: "req-think" });
+    nock(BASE).get("/get_answer").query(true).times(2).reply(200, { status: "finished", answer });
+
+    const send = (conversationId: string, extra: any = {}) => server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: { model: "claude", conversation_id: conversationId, messages: [{ role: "user", content: "oi" }], ...extra }
+    });
+
+    const enabled = JSON.parse((await send("sess-think-on", { thinking: { type: "enabled", budget_tokens: 2048 } })).payload);
+    const disabled = JSON.parse((await send("sess-think-off")).payload);
+
+    expect(enabled.content[0]).toEqual({
+      type: "thinking",
+      thinking: "O usuário quer uma saudação.",
+      signature: expect.any(String)
+    });
+    expect(enabled.content[1]).toEqual({ type: "text", text: "Olá!" });
+    expect(disabled.content).toEqual([{ type: "text", text: "Olá!" }]);
+  });
+
+  test("streams reasoning as thinking_delta events before the text", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-think-s", request_id: "req-think-s" });
+    const seq = [
+      { status: "processing", answer: "<think>O usuário" },
+      { status: "processing", answer: "<think>O usuário quer uma saudação.</think>\nOl" },
+      { status: "finished", answer }
+    ];
+    let i = 0;
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, () => seq[Math.min(i++, seq.length - 1)]);
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        stream: true,
+        thinking: { type: "enabled", budget_tokens: 2048 },
+        conversation_id: "sess-think-stream",
+        messages: [{ role: "user", content: "oi" }]
+      }
+    });
+
+    const events = parseEvents(res.payload);
+    const starts = events.filter((e) => e.event === "content_block_start").map((e) => e.data.content_block.type);
+    expect(starts).toEqual(["thinking", "text"]);
+
+    const deltas = events.filter((e) => e.event === "content_block_delta").map((e) => e.data.delta);
+    const thinking = deltas.filter((d) => d.type === "thinking_delta").map((d) => d.thinking).join("");
+    const text = deltas.filter((d) => d.type === "text_delta").map((d) => d.text).join("");
+    expect(thinking).toBe("O usuário quer uma saudação.");
+    expect(deltas.some((d) => d.type === "signature_delta")).toBe(true);
+    expect(text).toBe("Olá!");
+  });
+
+  test("streams later thinking sections after the text that preceded them", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-think-two", request_id: "req-think-two" });
+    const full = "<think>Primeiro, cumprimentar.</think>\nOlá!\n<think>Agora, oferecer ajuda.</think>\nComo posso ajudar?";
+    const seq = [
+      { status: "processing", answer: "<think>Primeiro, cumprimentar.</think>\nOlá!\n<think>Agora" },
+      { status: "processing", answer: "<think>Primeiro, cumprimentar.</think>\nOlá!\n<think>Agora, oferecer ajuda.</think>\nComo posso" },
+      { status: "finished", answer: full }
+    ];
+    let i = 0;
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, () => seq[Math.min(i++, seq.length - 1)]);
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        stream: true,
+        thinking: { type: "enabled", budget_tokens: 2048 },
+        conversation_id: "sess-think-two",
+        messages: [{ role: "user", content: "oi" }]
+      }
+    });
+
+    const events = parseEvents(res.payload);
+    const blocks: any[] = [];
+    for (const e of events) {
+      if (e.event === "content_block_start") blocks[e.data.index] = { type: e.data.content_block.type, content: "" };
+      if (e.event === "content_block_delta" && e.data.delta.type !== "signature_delta") {
+        blocks[e.data.index].content += e.data.delta.thinking ?? e.data.delta.text;
+      }
+    }
+    expect(blocks).toEqual([
+      { type: "thinking", content: "Primeiro, cumprimentar." },
+      { type: "text", content: "Olá!" },
+      { type: "thinking", content: "Agora, oferecer ajuda." },
+      { type: "text", content: "Como posso ajudar?" }
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { extractToolCalls, findToolCallProblems } from "../src/toolCallParser";
+import { Tool } from "../src/types";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+const tools: Tool[] = [
+  {
+    name: "Write",
+    description: "Write a file",
+    input_schema: {
+      type: "object",
+      properties: { file_path: { type: "string" }, content: { type: "string" } },
+      required: ["file_path", "content"]
+    }
+  }
+];
+
+describe("tool call parsing", () => {
+  test("extracts nested arguments from every supported syntax", () => {
+    const answer = [
+      "Vou criar os arquivos.",
+      'USE_TOOL(Write, {"file_path": "a.json", "content": "{\\"nested\\": {\\"x\\": [1, 2]}}"})',
+      "```tool_call",
+      '{"name": "Write", "input": {"file_path": "b.ts", "content": "if (a) { b(); }"}}',
+      "```",
+      '<tool_use><name>Write</name><input>{"file_path": "c.md", "content": "# C"}</input></tool_use>'
+    ].join("\n");
+
+    const { textContent, calls } = extractToolCalls(answer);
+
+    expect(textContent).toBe("Vou criar os arquivos.");
+    expect(calls.map(c => c.syntax)).toEqual(["use_tool", "fenced", "xml"]);
+    expect(calls[0].input).toEqual({ file_path: "a.json", content: '{"nested": {"x": [1, 2]}}' });
+    expect(calls[1].input).toEqual({ file_path: "b.ts", content: "if (a) { b(); }" });
+    expect(calls[2].input).toEqual({ file_path: "c.md", content: "# C" });
+    expect(findToolCallProblems(calls, tools)).toEqual([]);
+  });
+
+  test("reports schema mismatches and unknown tools", () => {
+    const { calls } = extractToolCalls('USE_TOOL(Write, {"file_path": 3})\nUSE_TOOL(Delete, {"path": "x"})');
+    const problems = findToolCallProblems(calls, tools);
+
+    expect(problems).toHaveLength(2);
+    expect(problems[0].errors).toEqual(["$.content is required", "$.file_path should be string but got integer"]);
+    expect(problems[1].errors).toEqual(['unknown tool "Delete"']);
+  });
+});
+
+describe("tool call repair", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("asks Toqan once to fix arguments that don't match the schema", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-repair");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-repair", request_id: "req-repair-1" });
+    nock(BASE)
+      .get("/get_answer")
+      .query((q: any) => q.request_id === "req-repair-1")
+      .reply(200, { status: "finished", answer: 'Criando.\nUSE_TOOL(Write, {"file_path": "a.txt"})' });
+
+    let repairPrompt = "";
+    nock(BASE)
+      .post("/continue_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        repairPrompt = body.user_message;
+        return { conversation_id: "conv-repair", request_id: "req-repair-2" };
+      });
+    nock(BASE)
+      .get("/get_answer")
+      .query((q: any) => q.request_id === "req-repair-2")
+      .reply(200, { status: "finished", answer: 'USE_TOOL(Write, {"file_path": "a.txt", "content": "oi"})' });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        conversation_id: "sess-repair",
+        tools,
+        messages: [{ role: "user", content: "crie a.txt com oi" }]
+      }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(repairPrompt).toContain("$.content is required");
+    const content = JSON.parse(res.payload).content;
+    expect(content[0]).toEqual({ type: "text", text: "Criando." });
+    expect(content[1]).toMatchObject({ type: "tool_use", name: "Write", input: { file_path: "a.txt", content: "oi" } });
+  });
+
+  test("re-prompts when tool_choice requires a tool the answer didn't call", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-choice");
+
+    let created: any;
+    nock(BASE)
+      .post("/create_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        created = body;
+        return { conversation_id: "conv-choice", request_id: "req-choice-1" };
+      });
+    nock(BASE)
+      .get("/get_answer")
+      .query((q: any) => q.request_id === "req-choice-1")
+      .reply(200, { status: "finished", answer: "Claro, vou escrever o arquivo." });
+
+    let reprompt = "";
+    nock(BASE)
+      .post("/continue_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        reprompt = body.user_message;
+        return { conversation_id: "conv-choice", request_id: "req-choice-2" };
+      });
+    nock(BASE)
+      .get("/get_answer")
+      .query((q: any) => q.request_id === "req-choice-2")
+      .reply(200, { status: "finished", answer: 'USE_TOOL(Write, {"file_path": "b.txt", "content": "x"})' });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        conversation_id: "sess-choice",
+        tools,
+        tool_choice: { type: "tool", name: "Write" },
+        messages: [{ role: "user", content: "crie b.txt" }]
+      }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(created.user_message).toContain("You must call the tool Write");
+    expect(reprompt).toContain("You must call the tool Write now.");
+    const body = JSON.parse(res.payload);
+    expect(body.stop_reason).toBe("tool_use");
+    expect(body.content.map((b: any) => b.type)).toEqual(["text", "tool_use"]);
+  });
+
+  test("tool_choice none leaves the tools out and drops stray tool calls", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-none");
+
+    let created: any;
+    nock(BASE)
+      .post("/create_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        created = body;
+        return { conversation_id: "conv-none", request_id: "req-none-1" };
+      });
+    nock(BASE)
+      .get("/get_answer")
+      .query(true)
+      .reply(200, { status: "finished", answer: 'Resumo pronto.\nUSE_TOOL(Write, {"file_path": "c.txt", "content": "y"})' });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/messages",
+      payload: {
+        model: "claude",
+        conversation_id: "sess-none",
+        tools,
+        tool_choice: { type: "none" },
+        messages: [{ role: "user", content: "resuma" }]
+      }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(created.user_message).not.toContain("Available Tools");
+    const body = JSON.parse(res.payload);
+    expect(body.content).toEqual([{ type: "text", text: "Resumo pronto." }]);
+    expect(body.stop_reason).toBe("end_turn");
+  });
+});
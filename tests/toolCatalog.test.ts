@@ -0,0 +1,97 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { renderTool } from "../src/toolCatalog";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+const edit = {
+  name: "MultiEdit",
+  description: "Edit a file in place.",
+  input_schema: {
+    type: "object" as const,
+    properties: {
+      file_path: { type: "string", description: "Absolute path of the file" },
+      mode: { type: "string", enum: ["strict", "loose"], default: "strict" },
+      edits: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            old_string: { type: "string", description: "Text to replace" },
+            new_string: { type: "string" }
+          },
+          required: ["old_string", "new_string"]
+        }
+      }
+    },
+    required: ["file_path", "edits"]
+  }
+};
+
+describe("tool catalog", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("renders types, enums, required flags and nested descriptions", () => {
+    expect(renderTool(edit)).toBe([
+      "## MultiEdit",
+      "Edit a file in place.",
+      'Input: {file_path: string, mode?: "strict" | "loose", edits: {old_string: string, new_string: string}[]}',
+      "- file_path: Absolute path of the file",
+      '- mode: (default: "strict")',
+      "- edits[].old_string: Text to replace"
+    ].join("\n"));
+  });
+
+  test("sends the catalog once per conversation and again when it changes", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map", "toqan:history:sess-catalog");
+
+    const sent: string[] = [];
+    nock(BASE)
+      .post("/create_conversation")
+      .reply(200, (_uri: string, body: any) => {
+        sent.push(body.user_message);
+        return { conversation_id: "conv-catalog", request_id: "req-catalog-1" };
+      });
+    nock(BASE)
+      .post("/continue_conversation")
+      .times(2)
+      .reply(200, (_uri: string, body: any) => {
+        sent.push(body.user_message);
+        return { conversation_id: "conv-catalog", request_id: `req-catalog-${sent.length}` };
+      });
+    nock(BASE).get("/get_answer").query(true).times(3).reply(200, { status: "finished", answer: "ok" });
+
+    // Each turn carries the chat so far, as clients send it
+    const history: any[] = [];
+    const send = async (tools: any[], content: string) => {
+      history.push({ role: "user", content });
+      const res = await server.inject({
+        method: "POST",
+        url: "/v1/messages",
+        payload: { model: "claude", conversation_id: "sess-catalog", tools, messages: [...history] }
+      });
+      history.push({ role: "assistant", content: JSON.parse(res.payload).content });
+      return res;
+    };
+
+    const read = { name: "Read", description: "Read a file", input_schema: { type: "object", properties: { path: { type: "string" } } } };
+    expect((await send([edit], "um")).statusCode).toBe(200);
+    expect((await send([edit], "dois")).statusCode).toBe(200);
+    expect((await send([edit, read], "três")).statusCode).toBe(200);
+
+    expect(sent[0]).toContain("## MultiEdit");
+    expect(sent[1]).not.toContain("## MultiEdit");
+    expect(sent[1]).toContain("still available: MultiEdit");
+    expect(sent[2]).toContain("## Read");
+  });
+});
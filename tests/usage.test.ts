@@ -0,0 +1,78 @@
+import nock from "nock";
+import { buildServer } from "../src/server";
+import { getRedis } from "../src/redisClient";
+import { IMAGE_TOKEN_ESTIMATE } from "../src/tokenUsage";
+
+const BASE = (process.env.TOQAN_BASE_URL || "https://api.coco.prod.toqan.ai/api").replace(/\/+$/, "");
+
+describe("usage", () => {
+  let server: any;
+  beforeAll(async () => {
+    server = buildServer();
+    await server.listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const tools = [
+    {
+      name: "Read",
+      description: "Read a file from disk",
+      input_schema: { type: "object" as const, properties: { file_path: { type: "string" } }, required: ["file_path"] }
+    }
+  ];
+
+  test("messages report input tokens for system, tools, text and images", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).put("/upload_file").reply(200, { file_id: "file-usage" });
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-usage", request_id: "req-usage" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "Uma captura de tela de um terminal." });
+
+    const payload = {
+      model: "claude",
+      conversation_id: "sess-usage",
+      system: "You are a careful assistant.",
+      tools,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "o que tem nesta imagem?" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: Buffer.from("png").toString("base64") } }
+          ]
+        }
+      ]
+    };
+
+    const res = await server.inject({ method: "POST", url: "/v1/messages", payload });
+    const counted = await server.inject({ method: "POST", url: "/v1/messages/count_tokens", payload });
+
+    const usage = JSON.parse(res.payload).usage;
+    expect(usage.input_tokens).toBeGreaterThan(IMAGE_TOKEN_ESTIMATE);
+    expect(usage.output_tokens).toBeGreaterThan(0);
+    expect(JSON.parse(counted.payload).input_tokens).toBe(usage.input_tokens);
+  });
+
+  test("completions report prompt and completion tokens", async () => {
+    const r = getRedis();
+    await r.del("toqan:conv_map");
+
+    nock(BASE).post("/create_conversation").reply(200, { conversation_id: "conv-usage-c", request_id: "req-usage-c" });
+    nock(BASE).get("/get_answer").query(true).reply(200, { status: "finished", answer: "resposta com algumas palavras" });
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/v1/complete",
+      payload: { model: "claude", conversation_id: "sess-usage-c", messages: [{ role: "user", content: "responda" }] }
+    });
+
+    const usage = JSON.parse(res.payload).usage;
+    expect(usage.prompt_tokens).toBeGreaterThan(0);
+    expect(usage.completion_tokens).toBeGreaterThan(0);
+    expect(usage.total_tokens).toBe(usage.prompt_tokens + usage.completion_tokens);
+  });
+});